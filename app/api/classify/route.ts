@@ -1,139 +1,34 @@
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import type { ExtractedDate } from "@/lib/types/chronology";
-import type { EventType } from "../events/route";
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || "");
-
-interface PageToClassify {
-  pageNumber: number;
-  pageId?: string;
-  text: string;
-  extractedDates: ExtractedDate[];
-}
-
-interface ExtractedEvent {
-  date: string;
-  summary: string;
-  type: EventType;
-  isPrimary: boolean;
-  confidence: number;
-  rawDateText?: string;
-}
-
-interface PageClassificationResult {
-  pageNumber: number;
-  pageId?: string;
-  events: ExtractedEvent[];
-  documentType: string | null;
-}
+import { getLlmProvider, LLM_PROVIDERS } from "@/lib/llm";
+import type { LlmProvider, LlmProviderName } from "@/lib/llm";
+import {
+  classifyPages,
+  saveClassificationResults,
+  type PageToClassify,
+  type PageClassificationResult,
+} from "@/lib/pipeline/classify";
+import { PROMPT_VERSIONS } from "@/lib/pipeline/prompts";
+import type { DateLanguage, DateOrder } from "@/lib/types/chronology";
 
 export interface ClassifyRequest {
   documentId: string;
   pages: PageToClassify[];
+  /** LLM to classify with, instead of the deployment's LLM_PROVIDER */
+  provider?: LlmProviderName;
+  /** Prompt version to classify with, instead of the deployment's default */
+  promptVersion?: string;
+  /** Ask the LLM again instead of reusing cached classifications */
+  forceRefresh?: boolean;
 }
 
 export interface ClassifyResponse {
   success: boolean;
   results: PageClassificationResult[];
   eventsCreated: number;
-}
-
-function buildPrompt(page: PageToClassify): string {
-  return `You are analyzing a page from medical records. Extract ALL clinically relevant date-event pairs.
-
-For each date found, provide:
-1. The date in ISO format (YYYY-MM-DD)
-2. A brief summary of what happened (<15 words)
-3. Event type: visit, lab, imaging, procedure, medication, note, or other
-4. Whether this is the PRIMARY date (when the document was created/service rendered)
-5. Your confidence level (0.0 to 1.0)
-
-IGNORE these dates:
-- Patient date of birth (DOB)
-- Fax/transmission timestamps
-- "Page X of Y" patterns
-- Document print dates (unless it's the only date)
-- "Revised" or "Updated" dates that refer to document updates, not clinical events
-
-PAGE TEXT:
----
-${page.text.slice(0, 3000)}
----
-
-RESPOND WITH ONLY THIS JSON (no markdown, no explanation):
-{
-  "events": [
-    {
-      "date": "2023-01-15",
-      "summary": "ER visit for chest pain",
-      "type": "visit",
-      "isPrimary": true,
-      "confidence": 0.95
-    }
-  ],
-  "documentType": "Emergency Department Note"
-}
-
-If no relevant dates are found, return: {"events": [], "documentType": null}`;
-}
-
-async function classifyPage(
-  model: ReturnType<typeof genAI.getGenerativeModel>,
-  page: PageToClassify
-): Promise<PageClassificationResult> {
-  try {
-    const prompt = buildPrompt(page);
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    let text = response.text().trim();
-
-    // Remove markdown code blocks if present
-    if (text.startsWith("```json")) {
-      text = text.slice(7);
-    } else if (text.startsWith("```")) {
-      text = text.slice(3);
-    }
-    if (text.endsWith("```")) {
-      text = text.slice(0, -3);
-    }
-    text = text.trim();
-
-    // Parse JSON response
-    const parsed = JSON.parse(text);
-
-    const events: ExtractedEvent[] = (parsed.events || []).map(
-      (e: {
-        date: string;
-        summary: string;
-        type: string;
-        isPrimary?: boolean;
-        confidence?: number;
-      }) => ({
-        date: e.date,
-        summary: e.summary,
-        type: e.type as EventType,
-        isPrimary: e.isPrimary ?? false,
-        confidence: e.confidence ?? 0.5,
-      })
-    );
-
-    return {
-      pageNumber: page.pageNumber,
-      pageId: page.pageId,
-      events,
-      documentType: parsed.documentType || null,
-    };
-  } catch (error) {
-    console.error(`Error classifying page ${page.pageNumber}:`, error);
-    return {
-      pageNumber: page.pageNumber,
-      pageId: page.pageId,
-      events: [],
-      documentType: null,
-    };
-  }
+  failedPages: number;
+  /** Pages whose classification was reused rather than requested */
+  cachedPages: number;
 }
 
 export async function POST(request: NextRequest) {
@@ -173,10 +68,34 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!process.env.GEMINI_API_KEY) {
-      console.error("[classify] GEMINI_API_KEY not configured");
+    if (body.provider !== undefined && !LLM_PROVIDERS.includes(body.provider)) {
+      return NextResponse.json(
+        { error: `provider must be one of: ${LLM_PROVIDERS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.promptVersion !== undefined && !PROMPT_VERSIONS.includes(body.promptVersion)) {
       return NextResponse.json(
-        { error: "GEMINI_API_KEY not configured" },
+        { error: `promptVersion must be one of: ${PROMPT_VERSIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.forceRefresh !== undefined && typeof body.forceRefresh !== "boolean") {
+      return NextResponse.json(
+        { error: "forceRefresh must be a boolean" },
+        { status: 400 }
+      );
+    }
+
+    let llm: LlmProvider;
+    try {
+      llm = getLlmProvider(body.provider);
+    } catch (configError) {
+      console.error("[classify] LLM provider not configured:", configError);
+      return NextResponse.json(
+        { error: configError instanceof Error ? configError.message : String(configError) },
         { status: 500 }
       );
     }
@@ -226,98 +145,53 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Enrich pages with pageIds
+    // Enrich pages with pageIds and the document's date order and language
+    const dateOrder = (document.dateOrder as DateOrder | null) ?? undefined;
+    const language = (document.dateLanguage as DateLanguage | null) ?? undefined;
     const enrichedPages = pages.map((p) => ({
       ...p,
       pageId: p.pageId || pageMap.get(p.pageNumber),
+      dateOrder: p.dateOrder ?? dateOrder,
+      language: p.language ?? language,
     }));
 
     console.log("[classify] Enriched pages:", enrichedPages.length, "pages,",
       enrichedPages.filter(p => p.pageId).length, "have pageIds");
 
-    // Use Gemini Flash for cost efficiency
-    const model = genAI.getGenerativeModel({ model: "gemini-2.0-flash" });
+    console.log("[classify] Starting", llm.name, "classification for", enrichedPages.length, "pages");
+    const results: PageClassificationResult[] = await classifyPages(
+      enrichedPages,
+      undefined,
+      { llm, promptVersion: body.promptVersion, forceRefresh: body.forceRefresh }
+    );
 
-    // Process pages in parallel (with some concurrency limit)
-    const BATCH_SIZE = 5;
-    const results: PageClassificationResult[] = [];
+    console.log("[classify] LLM classification complete, processing results");
 
-    console.log("[classify] Starting LLM classification for", enrichedPages.length, "pages");
-    for (let i = 0; i < enrichedPages.length; i += BATCH_SIZE) {
-      const batch = enrichedPages.slice(i, i + BATCH_SIZE);
-      console.log(`[classify] Processing batch ${i / BATCH_SIZE + 1}, pages ${i + 1}-${i + batch.length}`);
-      const batchResults = await Promise.all(
-        batch.map((page) => classifyPage(model, page))
-      );
-      results.push(...batchResults);
+    const failedPages = results.filter((r) => r.error).length;
+    const cachedPages = results.filter((r) => r.cached).length;
+    if (failedPages > 0) {
+      console.error("[classify]", failedPages, "pages failed classification");
     }
 
-    console.log("[classify] LLM classification complete, processing results");
-
     // Save events to database
     let eventsCreated = 0;
-    const eventsToCreate: {
-      documentId: string;
-      pageId: string | null;
-      date: string;
-      summary: string;
-      type: string;
-      isPrimary: boolean;
-      confidence: number;
-      source: string;
-      llmModel: string;
-    }[] = [];
-
-    for (const result of results) {
-      for (const event of result.events) {
-        eventsToCreate.push({
-          documentId,
-          pageId: result.pageId || null,
-          date: event.date,
-          summary: event.summary,
-          type: event.type,
-          isPrimary: event.isPrimary,
-          confidence: event.confidence,
-          source: "llm",
-          llmModel: "gemini-2.0-flash",
-        });
-      }
-
-      // Mark page as analyzed
-      if (result.pageId) {
-        try {
-          await prisma.page.update({
-            where: { id: result.pageId },
-            data: { llmAnalyzed: true },
-          });
-        } catch (updateError) {
-          console.error("[classify] Failed to update page", result.pageId, ":", updateError);
-        }
-      }
-    }
-
-    console.log("[classify] Preparing to create", eventsToCreate.length, "events");
-
-    if (eventsToCreate.length > 0) {
-      try {
-        await prisma.dateEvent.createMany({
-          data: eventsToCreate,
-        });
-        eventsCreated = eventsToCreate.length;
-        console.log("[classify] Created", eventsCreated, "events");
-      } catch (createError) {
-        console.error("[classify] Failed to create events:", createError);
-        return NextResponse.json(
-          { error: "Failed to save events to database", details: String(createError) },
-          { status: 500 }
-        );
-      }
+    try {
+      eventsCreated = await saveClassificationResults(documentId, results);
+      console.log("[classify] Created", eventsCreated, "events");
+    } catch (createError) {
+      console.error("[classify] Failed to create events:", createError);
+      return NextResponse.json(
+        { error: "Failed to save events to database", details: String(createError) },
+        { status: 500 }
+      );
     }
 
     const response: ClassifyResponse = {
       success: true,
       results,
       eventsCreated,
+      failedPages,
+      cachedPages,
     };
 
     console.log("[classify] Classification complete, returning response");
@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { DATE_CLASSIFICATIONS } from "@/lib/chronology";
+import { DATE_PRECISIONS, parseIsoDate, toIsoDate } from "@/lib/chronology/calendarDate";
+import { toStoredDate } from "@/lib/pipeline/dates";
+import type { DateClassification, DatePrecision } from "@/lib/types/chronology";
+
+// GET /api/dates/[id] - Get a single extracted date
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const date = await prisma.extractedDate.findUnique({
+      where: { id },
+      include: {
+        page: {
+          select: { pageNumber: true },
+        },
+      },
+    });
+
+    if (!date) {
+      return NextResponse.json({ error: "Date not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toStoredDate(date));
+  } catch (error) {
+    console.error("Error fetching extracted date:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch extracted date" },
+      { status: 500 }
+    );
+  }
+}
+
+export interface UpdateDateRequest {
+  iso?: string;
+  precision?: DatePrecision;
+  classification?: DateClassification;
+  /** Defaults to 1 when the date or classification is corrected */
+  confidence?: number;
+}
+
+// PATCH /api/dates/[id] - Correct an extracted date or its classification
+//
+// Corrections are kept when the document's dates are extracted again, and
+// apply to pages classified afterwards.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: UpdateDateRequest = await request.json();
+
+    if (
+      body.classification !== undefined &&
+      !DATE_CLASSIFICATIONS.includes(body.classification)
+    ) {
+      return NextResponse.json(
+        { error: `classification must be one of: ${DATE_CLASSIFICATIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.iso !== undefined && typeof body.iso !== "string") {
+      return NextResponse.json(
+        { error: "iso must be a valid YYYY-MM-DD, YYYY-MM or YYYY date" },
+        { status: 400 }
+      );
+    }
+
+    if (body.precision !== undefined && !DATE_PRECISIONS.includes(body.precision)) {
+      return NextResponse.json(
+        { error: `precision must be one of: ${DATE_PRECISIONS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.confidence !== undefined &&
+      (typeof body.confidence !== "number" || body.confidence < 0 || body.confidence > 1)
+    ) {
+      return NextResponse.json(
+        { error: "confidence must be between 0 and 1" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.extractedDate.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Date not found" }, { status: 404 });
+    }
+
+    const updateData: Record<string, unknown> = {};
+
+    if (body.iso !== undefined || body.precision !== undefined) {
+      // Precision follows from the date's form unless marked approximate
+      const calendarDate = parseIsoDate(
+        body.iso ?? existing.iso,
+        (body.precision ?? existing.precision) === "approximate"
+      );
+      if (!calendarDate) {
+        return NextResponse.json(
+          { error: "iso must be a valid YYYY-MM-DD, YYYY-MM or YYYY date" },
+          { status: 400 }
+        );
+      }
+      updateData.iso = toIsoDate(calendarDate);
+      updateData.precision = calendarDate.precision;
+      // The reviewer has settled which reading is meant
+      updateData.ambiguousMdy = null;
+      updateData.ambiguousDmy = null;
+    }
+
+    if (body.classification !== undefined) {
+      updateData.classification = body.classification;
+    }
+
+    if (Object.keys(updateData).length > 0 || body.confidence !== undefined) {
+      // A reviewer's correction is as certain as it gets unless they say otherwise
+      updateData.confidence = body.confidence ?? 1;
+      updateData.userEdited = true;
+    }
+
+    const date = await prisma.extractedDate.update({
+      where: { id },
+      data: updateData,
+      include: {
+        page: {
+          select: { pageNumber: true },
+        },
+      },
+    });
+
+    return NextResponse.json(toStoredDate(date));
+  } catch (error) {
+    console.error("Error updating extracted date:", error);
+    return NextResponse.json(
+      { error: "Failed to update extracted date" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { clusterDocument, loadChronology } from "@/lib/pipeline/clusters";
+import type { ChronologyResult } from "@/lib/types/chronology";
+
+export interface ChronologyResponse extends ChronologyResult {
+  documentId: string;
+}
+
+// GET /api/documents/[id]/clusters - Get the document's pages grouped by date
+// of service, as stored by the last clustering
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const response: ChronologyResponse = {
+      documentId: id,
+      ...(await loadChronology(id)),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching clusters:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch clusters" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/clusters - Cluster the document's pages again,
+// e.g. after events or dates were corrected
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const response: ChronologyResponse = {
+      documentId: id,
+      ...(await clusterDocument(id)),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error building clusters:", error);
+    return NextResponse.json(
+      { error: "Failed to build clusters" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { toRunResponse } from "@/lib/pipeline/runs";
+
+/** How often the stream re-reads the run's counters */
+const PROGRESS_POLL_INTERVAL_MS = 1000;
+
+/** Comment sent on idle streams so proxies don't drop the connection */
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+
+// GET /api/documents/[id]/progress - Stream the document's current run as Server-Sent Events
+//
+// Emits a "progress" event (RunResponse JSON) whenever the run changes and an
+// "end" event once it has completed or failed. If the document has never been
+// queued, a single "end" event with null data is sent.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const encoder = new TextEncoder();
+
+  // Set once the stream is closed by us or cancelled by the client; nothing
+  // may be enqueued after that
+  let closed = false;
+  let pollTimer: ReturnType<typeof setTimeout> | undefined;
+  let wakePoll: (() => void) | undefined;
+
+  const stopPolling = () => {
+    closed = true;
+    clearTimeout(pollTimer);
+    wakePoll?.();
+  };
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let lastPayload = "";
+      let lastSentAt = Date.now();
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+        lastSentAt = Date.now();
+      };
+
+      const send = (event: string, data: string) => {
+        write(`event: ${event}\ndata: ${data}\n\n`);
+      };
+
+      const close = () => {
+        if (closed) return;
+        stopPolling();
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the client going away
+        }
+      };
+
+      request.signal.addEventListener("abort", close);
+
+      while (!closed) {
+        try {
+          const run = await prisma.processingRun.findFirst({
+            where: { documentId: id, kind: "process" },
+            orderBy: { createdAt: "desc" },
+          });
+          if (closed) break;
+
+          const payload = run ? JSON.stringify(toRunResponse(run)) : "null";
+          if (run && payload !== lastPayload) {
+            send("progress", payload);
+            lastPayload = payload;
+          } else if (Date.now() - lastSentAt >= KEEPALIVE_INTERVAL_MS) {
+            write(": keepalive\n\n");
+          }
+
+          if (!run || run.status === "completed" || run.status === "failed") {
+            send("end", payload);
+            close();
+            break;
+          }
+        } catch (error) {
+          // Closing without "end" makes the client's EventSource reconnect
+          console.error("[progress] Error reading run:", error);
+          close();
+          break;
+        }
+
+        await new Promise<void>((resolve) => {
+          wakePoll = resolve;
+          pollTimer = setTimeout(resolve, PROGRESS_POLL_INTERVAL_MS);
+        });
+      }
+    },
+
+    // The client disconnected: stop polling and never touch the controller again
+    cancel() {
+      stopPolling();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
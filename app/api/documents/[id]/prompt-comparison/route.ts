@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { getLlmProvider, LLM_PROVIDERS } from "@/lib/llm";
+import { isPromptComparison } from "@/lib/pipeline/promptComparison";
+import type { PromptComparison } from "@/lib/pipeline/promptComparison";
+import { PROMPT_VERSIONS } from "@/lib/pipeline/prompts";
+import { enqueuePromptComparison, toRunResponse } from "@/lib/pipeline/runs";
+import type { PromptComparisonOptions } from "@/lib/pipeline/runs";
+import { wakeWorker } from "@/lib/pipeline/worker";
+import type { RunResponse } from "@/lib/types/chronology";
+
+export type PromptComparisonRequest = PromptComparisonOptions;
+
+export interface PromptComparisonResponse {
+  documentId: string;
+  /** The run doing the comparison; poll until it completes */
+  run: RunResponse;
+  versionA: string;
+  versionB: string;
+  /** The report, once the run has completed */
+  comparison: PromptComparison | null;
+}
+
+function validateComparisonRequest(body: PromptComparisonRequest): string | null {
+  for (const version of [body.versionA, body.versionB]) {
+    if (!PROMPT_VERSIONS.includes(version)) {
+      return `versionA and versionB must each be one of: ${PROMPT_VERSIONS.join(", ")}`;
+    }
+  }
+  if (body.versionA === body.versionB) {
+    return "versionA and versionB must be different versions";
+  }
+  if (
+    body.pageNumbers !== undefined &&
+    (!Array.isArray(body.pageNumbers) ||
+      body.pageNumbers.length === 0 ||
+      !body.pageNumbers.every((n) => Number.isInteger(n) && n >= 1))
+  ) {
+    return "pageNumbers must be a non-empty array of page numbers";
+  }
+  if (body.provider !== undefined && !LLM_PROVIDERS.includes(body.provider)) {
+    return `provider must be one of: ${LLM_PROVIDERS.join(", ")}`;
+  }
+  return null;
+}
+
+// GET /api/documents/[id]/prompt-comparison?runId=xxx - Get a prompt
+// comparison run and its report (the document's latest when runId is omitted)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = request.nextUrl.searchParams.get("runId");
+
+    const run = await prisma.processingRun.findFirst({
+      where: { documentId: id, kind: "prompt_comparison", ...(runId && { id: runId }) },
+      orderBy: { createdAt: "desc" },
+      include: { promptComparison: true },
+    });
+
+    if (!run?.promptComparison) {
+      return NextResponse.json(
+        { error: "Prompt comparison not found" },
+        { status: 404 }
+      );
+    }
+
+    const { versionA, versionB, result } = run.promptComparison;
+    const response: PromptComparisonResponse = {
+      documentId: id,
+      run: toRunResponse(run),
+      versionA,
+      versionB,
+      comparison: isPromptComparison(result) ? result : null,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching prompt comparison:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch prompt comparison" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/documents/[id]/prompt-comparison - Queue a run that classifies the
+// document's pages with two prompt versions side by side and reports how
+// their events differ, without saving any events. Poll GET for the report.
+// Versions are registered in lib/pipeline/prompts.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    let body: PromptComparisonRequest;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json(
+        { error: "Invalid JSON in request body" },
+        { status: 400 }
+      );
+    }
+
+    const problem = validateComparisonRequest(body);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    // Fail now rather than in the worker if the provider isn't configured
+    try {
+      getLlmProvider(body.provider);
+    } catch (configError) {
+      return NextResponse.json(
+        { error: configError instanceof Error ? configError.message : String(configError) },
+        { status: 500 }
+      );
+    }
+
+    const document = await prisma.document.findUnique({
+      where: { id },
+      select: { id: true },
+    });
+    if (!document) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const run = await enqueuePromptComparison(id, {
+      versionA: body.versionA,
+      versionB: body.versionB,
+      pageNumbers: body.pageNumbers,
+      provider: body.provider,
+    });
+    wakeWorker();
+
+    const response: PromptComparisonResponse = {
+      documentId: id,
+      run: toRunResponse(run),
+      versionA: body.versionA,
+      versionB: body.versionB,
+      comparison: null,
+    };
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing prompt comparison:", error);
+    return NextResponse.json(
+      { error: "Failed to queue prompt comparison" },
+      { status: 500 }
+    );
+  }
+}
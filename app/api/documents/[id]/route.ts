@@ -1,5 +1,20 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import { DATE_LANGUAGES } from "@/lib/chronology/languages";
+import { INHERITANCE_STRATEGIES } from "@/lib/chronology/clusters";
+import { toStoredDate } from "@/lib/pipeline/dates";
+import type {
+  DateLanguage,
+  DateOrder,
+  DatePolicy,
+  DatePrecision,
+  InheritanceStrategy,
+  LanguagePolicy,
+  StoredDate,
+} from "@/lib/types/chronology";
+
+const DATE_POLICIES: DatePolicy[] = ["us", "international", "auto"];
+const LANGUAGE_POLICIES: LanguagePolicy[] = [...DATE_LANGUAGES, "auto"];
 
 export interface DocumentDetail {
   id: string;
@@ -9,24 +24,46 @@ export interface DocumentDetail {
   processedAt: string | null;
   totalPages: number | null;
   pagesWithDates: number | null;
+  datePolicy: DatePolicy;
+  /** Order used at the last date extraction (null until dates are extracted) */
+  dateOrder: DateOrder | null;
+  language: LanguagePolicy;
+  /** Language used at the last date extraction (null until dates are extracted) */
+  dateLanguage: DateLanguage | null;
+  /** Organization whose date context rules apply */
+  organizationId: string | null;
+  /** Where undated pages take a date of service from */
+  inheritanceStrategy: InheritanceStrategy;
+  /** Most pages a date of service may be inherited across (null for no limit) */
+  maxInheritanceDistance: number | null;
   pages: {
     id: string;
     pageNumber: number;
     hasDate: boolean;
     llmAnalyzed: boolean;
+    /** Why the page's last classification failed, if it did */
+    llmError: string | null;
     duplicateOfId: string | null;
     isDuplicateReviewed: boolean;
+    /** Dates found on the page, in reading order, with reviewer corrections */
+    dates: StoredDate[];
   }[];
   events: {
     id: string;
     pageId: string | null;
     pageNumber: number | null;
     date: string;
+    datePrecision: DatePrecision;
+    time: string | null;
+    endDate: string | null;
+    endDatePrecision: DatePrecision | null;
     summary: string;
     type: string;
     isPrimary: boolean;
     confidence: number;
     source: string;
+    /** Prompt version that produced an LLM event, null for others */
+    promptVersion: string | null;
     userEdited: boolean;
     userNotes: string | null;
   }[];
@@ -50,12 +87,18 @@ export async function GET(
             pageNumber: true,
             hasDate: true,
             llmAnalyzed: true,
+            llmError: true,
             duplicateOfId: true,
             isDuplicateReviewed: true,
+            extractedDates: { orderBy: { offset: "asc" } },
           },
         },
         events: {
-          orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+          orderBy: [
+            { date: "asc" },
+            { time: { sort: "asc", nulls: "last" } },
+            { createdAt: "asc" },
+          ],
           include: {
             page: {
               select: { pageNumber: true },
@@ -77,17 +120,32 @@ export async function GET(
       processedAt: document.processedAt?.toISOString() ?? null,
       totalPages: document.totalPages,
       pagesWithDates: document.pagesWithDates,
-      pages: document.pages,
+      datePolicy: document.datePolicy as DatePolicy,
+      dateOrder: document.dateOrder as DateOrder | null,
+      language: document.language as LanguagePolicy,
+      dateLanguage: document.dateLanguage as DateLanguage | null,
+      organizationId: document.organizationId,
+      inheritanceStrategy: document.inheritanceStrategy as InheritanceStrategy,
+      maxInheritanceDistance: document.maxInheritanceDistance,
+      pages: document.pages.map(({ extractedDates, ...page }) => ({
+        ...page,
+        dates: extractedDates.map(toStoredDate),
+      })),
       events: document.events.map((event) => ({
         id: event.id,
         pageId: event.pageId,
         pageNumber: event.page?.pageNumber ?? null,
         date: event.date,
+        datePrecision: event.datePrecision as DatePrecision,
+        time: event.time,
+        endDate: event.endDate,
+        endDatePrecision: event.endDatePrecision as DatePrecision | null,
         summary: event.summary,
         type: event.type,
         isPrimary: event.isPrimary,
         confidence: event.confidence,
         source: event.source,
+        promptVersion: event.promptVersion,
         userEdited: event.userEdited,
         userNotes: event.userNotes,
       })),
@@ -103,6 +161,123 @@ export async function GET(
   }
 }
 
+export interface UpdateDocumentRequest {
+  datePolicy?: DatePolicy;
+  language?: LanguagePolicy;
+  organizationId?: string | null;
+  inheritanceStrategy?: InheritanceStrategy;
+  /** Set to null to remove the limit */
+  maxInheritanceDistance?: number | null;
+}
+
+// PATCH /api/documents/[id] - Update document settings
+//
+// Changing the date policy, language or organization (whose date context
+// rules apply) takes effect the next time dates are extracted; resume the
+// document's run at the "dates" stage to re-read existing pages. Inheritance
+// settings take effect the next time the document is clustered
+// (POST /api/documents/[id]/clusters).
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: UpdateDocumentRequest = await request.json();
+
+    if (body.datePolicy !== undefined && !DATE_POLICIES.includes(body.datePolicy)) {
+      return NextResponse.json(
+        { error: `datePolicy must be one of: ${DATE_POLICIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.language !== undefined && !LANGUAGE_POLICIES.includes(body.language)) {
+      return NextResponse.json(
+        { error: `language must be one of: ${LANGUAGE_POLICIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.inheritanceStrategy !== undefined &&
+      !INHERITANCE_STRATEGIES.includes(body.inheritanceStrategy)
+    ) {
+      return NextResponse.json(
+        { error: `inheritanceStrategy must be one of: ${INHERITANCE_STRATEGIES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      body.maxInheritanceDistance != null &&
+      (!Number.isInteger(body.maxInheritanceDistance) || body.maxInheritanceDistance < 1)
+    ) {
+      return NextResponse.json(
+        { error: "maxInheritanceDistance must be a positive whole number of pages" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.document.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+
+    const updateData: Record<string, unknown> = {};
+
+    if (body.datePolicy !== undefined && body.datePolicy !== existing.datePolicy) {
+      updateData.datePolicy = body.datePolicy;
+      // Forget the old resolved order so it is recomputed from the new policy
+      updateData.dateOrder = null;
+    }
+
+    if (body.language !== undefined && body.language !== existing.language) {
+      updateData.language = body.language;
+      // The language also sets the fallback date order, so forget both
+      updateData.dateLanguage = null;
+      updateData.dateOrder = null;
+    }
+
+    if (body.organizationId !== undefined) {
+      updateData.organizationId = body.organizationId || null;
+    }
+
+    if (body.inheritanceStrategy !== undefined) {
+      updateData.inheritanceStrategy = body.inheritanceStrategy;
+    }
+
+    if (body.maxInheritanceDistance !== undefined) {
+      updateData.maxInheritanceDistance = body.maxInheritanceDistance;
+    }
+
+    const document = await prisma.document.update({
+      where: { id },
+      data: updateData,
+    });
+
+    return NextResponse.json({
+      id: document.id,
+      datePolicy: document.datePolicy as DatePolicy,
+      dateOrder: document.dateOrder as DateOrder | null,
+      language: document.language as LanguagePolicy,
+      dateLanguage: document.dateLanguage as DateLanguage | null,
+      organizationId: document.organizationId,
+      inheritanceStrategy: document.inheritanceStrategy as InheritanceStrategy,
+      maxInheritanceDistance: document.maxInheritanceDistance,
+    });
+  } catch (error) {
+    console.error("Error updating document:", error);
+    return NextResponse.json(
+      { error: "Failed to update document" },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/documents/[id] - Delete document and cascade to pages/events
 export async function DELETE(
   request: NextRequest,
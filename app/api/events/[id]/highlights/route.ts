@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import { eventHighlights } from "@/lib/pipeline/highlights";
+import type { Highlight } from "@/lib/types/chronology";
+
+export interface EventHighlightsResponse {
+  eventId: string;
+  /** The event's date as written and its supporting sentence, in reading order */
+  highlights: Highlight[];
+}
+
+// GET /api/events/[id]/highlights - Locate an event's date and evidence on its page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const highlights = await eventHighlights(id);
+
+    if (!highlights) {
+      return NextResponse.json({ error: "Event not found" }, { status: 404 });
+    }
+
+    const response: EventHighlightsResponse = { eventId: id, highlights };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error locating event highlights:", error);
+    return NextResponse.json(
+      { error: "Failed to locate event highlights" },
+      { status: 500 }
+    );
+  }
+}
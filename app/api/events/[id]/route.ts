@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
+import {
+  compareCalendarDates,
+  parseIsoDate,
+  toIsoDate,
+} from "@/lib/chronology/calendarDate";
+import { parseTimeOfDay } from "@/lib/chronology/timeOfDay";
+import type { DatePrecision } from "@/lib/types/chronology";
 import type { EventResponse } from "../route";
 
 // GET /api/events/[id] - Get a single event
@@ -29,12 +36,19 @@ export async function GET(
       pageId: event.pageId,
       pageNumber: event.page?.pageNumber ?? null,
       date: event.date,
+      datePrecision: event.datePrecision as DatePrecision,
+      time: event.time,
+      endDate: event.endDate,
+      endDatePrecision: event.endDatePrecision as DatePrecision | null,
       rawDateText: event.rawDateText,
+      dateReasoning: event.dateReasoning,
+      evidenceText: event.evidenceText,
       summary: event.summary,
       type: event.type,
       isPrimary: event.isPrimary,
       confidence: event.confidence,
       source: event.source,
+      promptVersion: event.promptVersion,
       userEdited: event.userEdited,
       userNotes: event.userNotes,
       duplicateOfId: event.duplicateOfId,
@@ -54,6 +68,12 @@ export async function GET(
 
 export interface UpdateEventRequest {
   date?: string;
+  datePrecision?: DatePrecision;
+  /** HH:MM (24-hour); set to null to remove the time */
+  time?: string | null;
+  /** Set to null to turn a span back into a single date */
+  endDate?: string | null;
+  endDatePrecision?: DatePrecision | null;
   summary?: string;
   type?: string;
   isPrimary?: boolean;
@@ -81,7 +101,69 @@ export async function PATCH(
     // Build update data
     const updateData: Record<string, unknown> = {};
 
-    if (body.date !== undefined) updateData.date = body.date;
+    if (body.date !== undefined || body.datePrecision !== undefined) {
+      // Precision follows from the date's form unless marked approximate
+      const calendarDate = parseIsoDate(
+        body.date ?? existing.date,
+        (body.datePrecision ?? existing.datePrecision) === "approximate"
+      );
+      if (!calendarDate) {
+        return NextResponse.json(
+          { error: "date must be a valid YYYY-MM-DD, YYYY-MM or YYYY date" },
+          { status: 400 }
+        );
+      }
+      updateData.date = toIsoDate(calendarDate);
+      updateData.datePrecision = calendarDate.precision;
+      // A corrected date no longer follows from the relative text it was inferred from
+      if (updateData.date !== existing.date) updateData.dateReasoning = null;
+    }
+
+    if (
+      body.time !== undefined ||
+      body.date !== undefined ||
+      body.datePrecision !== undefined
+    ) {
+      const time = body.time !== undefined ? body.time : existing.time;
+      const timeOfDay = time ? parseTimeOfDay(time) : null;
+      if (body.time && !timeOfDay) {
+        return NextResponse.json(
+          { error: "time must be HH:MM (24-hour)" },
+          { status: 400 }
+        );
+      }
+      // Partial dates can't carry a time, so narrowing the date drops it
+      const precision = updateData.datePrecision ?? existing.datePrecision;
+      updateData.time = precision === "day" ? timeOfDay : null;
+    }
+
+    if (
+      body.date !== undefined ||
+      body.datePrecision !== undefined ||
+      body.endDate !== undefined ||
+      body.endDatePrecision !== undefined
+    ) {
+      const endDate = body.endDate !== undefined ? body.endDate : existing.endDate;
+      const start = parseIsoDate(
+        body.date ?? existing.date,
+        (body.datePrecision ?? existing.datePrecision) === "approximate"
+      );
+      const end = endDate
+        ? parseIsoDate(
+            endDate,
+            (body.endDatePrecision ?? existing.endDatePrecision) === "approximate"
+          )
+        : null;
+
+      if (endDate && (!start || !end || compareCalendarDates(start, end) >= 0)) {
+        return NextResponse.json(
+          { error: "endDate must be a valid date after date" },
+          { status: 400 }
+        );
+      }
+      updateData.endDate = end ? toIsoDate(end) : null;
+      updateData.endDatePrecision = end?.precision ?? null;
+    }
     if (body.summary !== undefined) updateData.summary = body.summary;
     if (body.type !== undefined) updateData.type = body.type;
     if (body.isPrimary !== undefined) updateData.isPrimary = body.isPrimary;
@@ -92,6 +174,9 @@ export async function PATCH(
     // Mark as user edited if any content fields changed
     if (
       body.date !== undefined ||
+      body.datePrecision !== undefined ||
+      body.time !== undefined ||
+      body.endDate !== undefined ||
       body.summary !== undefined ||
       body.type !== undefined ||
       body.userNotes !== undefined
@@ -115,12 +200,19 @@ export async function PATCH(
       pageId: event.pageId,
       pageNumber: event.page?.pageNumber ?? null,
       date: event.date,
+      datePrecision: event.datePrecision as DatePrecision,
+      time: event.time,
+      endDate: event.endDate,
+      endDatePrecision: event.endDatePrecision as DatePrecision | null,
       rawDateText: event.rawDateText,
+      dateReasoning: event.dateReasoning,
+      evidenceText: event.evidenceText,
       summary: event.summary,
       type: event.type,
       isPrimary: event.isPrimary,
       confidence: event.confidence,
       source: event.source,
+      promptVersion: event.promptVersion,
       userEdited: event.userEdited,
       userNotes: event.userNotes,
       duplicateOfId: event.duplicateOfId,
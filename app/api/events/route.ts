@@ -1,14 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-
-export type EventType =
-  | "visit"
-  | "lab"
-  | "imaging"
-  | "procedure"
-  | "medication"
-  | "note"
-  | "other";
+import {
+  compareCalendarDates,
+  parseIsoDate,
+  toIsoDate,
+} from "@/lib/chronology/calendarDate";
+import { parseTimeOfDay } from "@/lib/chronology/timeOfDay";
+import type { DatePrecision, EventType } from "@/lib/types/chronology";
 
 export interface EventResponse {
   id: string;
@@ -16,12 +14,24 @@ export interface EventResponse {
   pageId: string | null;
   pageNumber: number | null;
   date: string;
+  datePrecision: DatePrecision;
+  /** Time of day (HH:MM, 24-hour), null when the record gives none */
+  time: string | null;
+  /** End of a span (hospital stay, treatment course), null for single dates */
+  endDate: string | null;
+  endDatePrecision: DatePrecision | null;
   rawDateText: string | null;
+  /** How the date was worked out when inferred from relative text ("POD #3") */
+  dateReasoning: string | null;
+  /** The sentence on the page that supports the event, as quoted by the LLM */
+  evidenceText: string | null;
   summary: string;
   type: string;
   isPrimary: boolean;
   confidence: number;
   source: string;
+  /** Prompt version that produced an LLM event, null for others */
+  promptVersion: string | null;
   userEdited: boolean;
   userNotes: string | null;
   duplicateOfId: string | null;
@@ -47,7 +57,11 @@ export async function GET(request: NextRequest) {
 
     const events = await prisma.dateEvent.findMany({
       where: { documentId },
-      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+      orderBy: [
+        { date: "asc" },
+        { time: { sort: "asc", nulls: "last" } },
+        { createdAt: "asc" },
+      ],
       include: {
         page: {
           select: { pageNumber: true },
@@ -62,12 +76,19 @@ export async function GET(request: NextRequest) {
         pageId: event.pageId,
         pageNumber: event.page?.pageNumber ?? null,
         date: event.date,
+        datePrecision: event.datePrecision as DatePrecision,
+        time: event.time,
+        endDate: event.endDate,
+        endDatePrecision: event.endDatePrecision as DatePrecision | null,
         rawDateText: event.rawDateText,
+        dateReasoning: event.dateReasoning,
+        evidenceText: event.evidenceText,
         summary: event.summary,
         type: event.type,
         isPrimary: event.isPrimary,
         confidence: event.confidence,
         source: event.source,
+        promptVersion: event.promptVersion,
         userEdited: event.userEdited,
         userNotes: event.userNotes,
         duplicateOfId: event.duplicateOfId,
@@ -89,7 +110,15 @@ export async function GET(request: NextRequest) {
 export interface CreateEventRequest {
   documentId: string;
   pageNumber?: number;
+  /** YYYY-MM-DD, or YYYY-MM / YYYY when only part of the date is known */
   date: string;
+  /** Only "approximate" needs to be sent; other precisions follow from `date` */
+  datePrecision?: DatePrecision;
+  /** Optional time of day (HH:MM, 24-hour); needs a full date */
+  time?: string;
+  /** Optional end of a span, in the same forms as `date` */
+  endDate?: string;
+  endDatePrecision?: DatePrecision;
   summary: string;
   type: EventType;
   isPrimary?: boolean;
@@ -100,8 +129,19 @@ export interface CreateEventRequest {
 export async function POST(request: NextRequest) {
   try {
     const body: CreateEventRequest = await request.json();
-    const { documentId, pageNumber, date, summary, type, isPrimary, userNotes } =
-      body;
+    const {
+      documentId,
+      pageNumber,
+      date,
+      datePrecision,
+      time,
+      endDate,
+      endDatePrecision,
+      summary,
+      type,
+      isPrimary,
+      userNotes,
+    } = body;
 
     if (!documentId || !date || !summary || !type) {
       return NextResponse.json(
@@ -110,6 +150,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const calendarDate = parseIsoDate(date, datePrecision === "approximate");
+    if (!calendarDate) {
+      return NextResponse.json(
+        { error: "date must be a valid YYYY-MM-DD, YYYY-MM or YYYY date" },
+        { status: 400 }
+      );
+    }
+
+    const timeOfDay = time ? parseTimeOfDay(time) : null;
+    if (time && (!timeOfDay || calendarDate.precision !== "day")) {
+      return NextResponse.json(
+        { error: "time must be HH:MM (24-hour) on a full YYYY-MM-DD date" },
+        { status: 400 }
+      );
+    }
+
+    const calendarEndDate = endDate
+      ? parseIsoDate(endDate, endDatePrecision === "approximate")
+      : null;
+    if (endDate && (!calendarEndDate || compareCalendarDates(calendarDate, calendarEndDate) >= 0)) {
+      return NextResponse.json(
+        { error: "endDate must be a valid date after date" },
+        { status: 400 }
+      );
+    }
+
     // Verify document exists
     const document = await prisma.document.findUnique({
       where: { id: documentId },
@@ -141,7 +207,11 @@ export async function POST(request: NextRequest) {
       data: {
         documentId,
         pageId,
-        date,
+        date: toIsoDate(calendarDate),
+        datePrecision: calendarDate.precision,
+        time: timeOfDay,
+        endDate: calendarEndDate ? toIsoDate(calendarEndDate) : null,
+        endDatePrecision: calendarEndDate?.precision ?? null,
         summary,
         type,
         isPrimary: isPrimary ?? false,
@@ -163,12 +233,19 @@ export async function POST(request: NextRequest) {
       pageId: event.pageId,
       pageNumber: event.page?.pageNumber ?? null,
       date: event.date,
+      datePrecision: event.datePrecision as DatePrecision,
+      time: event.time,
+      endDate: event.endDate,
+      endDatePrecision: event.endDatePrecision as DatePrecision | null,
       rawDateText: event.rawDateText,
+      dateReasoning: event.dateReasoning,
+      evidenceText: event.evidenceText,
       summary: event.summary,
       type: event.type,
       isPrimary: event.isPrimary,
       confidence: event.confidence,
       source: event.source,
+      promptVersion: event.promptVersion,
       userEdited: event.userEdited,
       userNotes: event.userNotes,
       duplicateOfId: event.duplicateOfId,
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { format, parseISO } from "date-fns";
+import { normalizeIsoDate } from "@/lib/chronology/calendarDate";
 
 // GET /api/export?documentId=xxx - Export events as CSV
 export async function GET(request: NextRequest) {
@@ -27,7 +27,11 @@ export async function GET(request: NextRequest) {
 
     const events = await prisma.dateEvent.findMany({
       where: { documentId },
-      orderBy: [{ date: "asc" }, { createdAt: "asc" }],
+      orderBy: [
+        { date: "asc" },
+        { time: { sort: "asc", nulls: "last" } },
+        { createdAt: "asc" },
+      ],
       include: {
         page: {
           select: { pageNumber: true },
@@ -36,17 +40,16 @@ export async function GET(request: NextRequest) {
     });
 
     // Build CSV
-    const headers = ["Date", "Summary", "Type", "Page", "Primary", "Source", "Notes"];
+    const headers = ["Date", "Date Precision", "Time", "End Date", "Summary", "Type", "Page", "Primary", "Source", "Notes"];
     const rows = events.map((event) => {
-      let formattedDate = event.date;
-      try {
-        formattedDate = format(parseISO(event.date), "yyyy-MM-dd");
-      } catch {
-        // Use raw date if parsing fails
-      }
+      // Partial dates stay partial (2024-01, 2024); use raw date if parsing fails
+      const formattedDate = normalizeIsoDate(event.date) ?? event.date;
 
       return [
         formattedDate,
+        event.datePrecision,
+        event.time || "",
+        event.endDate || "",
         escapeCsvField(event.summary),
         event.type,
         event.page?.pageNumber?.toString() || "",
@@ -1,15 +1,5 @@
-import { Storage } from "@google-cloud/storage";
 import { NextRequest, NextResponse } from "next/server";
-
-const storage = new Storage({
-  projectId: process.env.GCS_PROJECT_ID,
-  credentials: {
-    client_email: process.env.GCS_CLIENT_EMAIL,
-    private_key: process.env.GCS_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-  },
-});
-
-const bucketName = process.env.GCS_BUCKET_NAME!;
+import { getStorage } from "@/lib/storage";
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,11 +12,8 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Generate signed URL for PDF viewing (1 hour expiry)
-    const [url] = await storage.bucket(bucketName).file(filename).getSignedUrl({
-      action: "read",
-      expires: Date.now() + 60 * 60 * 1000,
-    });
+    // Generate temporary URL for PDF viewing (1 hour expiry)
+    const url = await getStorage().getTemporaryUrl(filename, 60 * 60 * 1000);
 
     return NextResponse.json({ url });
   } catch (error) {
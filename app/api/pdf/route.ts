@@ -1,15 +1,6 @@
-import { Storage } from "@google-cloud/storage";
 import { NextRequest, NextResponse } from "next/server";
-
-const storage = new Storage({
-  projectId: process.env.GCS_PROJECT_ID,
-  credentials: {
-    client_email: process.env.GCS_CLIENT_EMAIL,
-    private_key: process.env.GCS_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-  },
-});
-
-const bucketName = process.env.GCS_BUCKET_NAME!;
+import { Readable } from "stream";
+import { getStorage } from "@/lib/storage";
 
 export async function GET(request: NextRequest) {
   try {
@@ -22,27 +13,21 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const file = storage.bucket(bucketName).file(filename);
+    const storage = getStorage();
 
-    // Check if file exists
-    const [exists] = await file.exists();
-    if (!exists) {
+    // Check if file exists and get metadata for content type
+    const info = await storage.stat(filename);
+    if (!info) {
       return NextResponse.json({ error: "File not found" }, { status: 404 });
     }
 
-    // Get file metadata for content type
-    const [metadata] = await file.getMetadata();
-
     // Stream the file content
-    const [buffer] = await file.download();
-
-    // Convert Buffer to Uint8Array for NextResponse compatibility
-    const uint8Array = new Uint8Array(buffer);
+    const body = Readable.toWeb(storage.stream(filename)) as ReadableStream<Uint8Array>;
 
-    return new NextResponse(uint8Array, {
+    return new NextResponse(body, {
       headers: {
-        "Content-Type": metadata.contentType || "application/pdf",
-        "Content-Length": buffer.length.toString(),
+        "Content-Type": info.contentType || "application/pdf",
+        "Content-Length": info.size.toString(),
         "Cache-Control": "private, max-age=3600",
       },
     });
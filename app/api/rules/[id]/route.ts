@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { validateContextRule } from "@/lib/chronology";
+import {
+  parseRuleInput,
+  ruleInputFromRow,
+  toDateRuleResponse,
+  withRuleDefaults,
+} from "@/lib/pipeline/rules";
+import type { DateRuleInput } from "@/lib/pipeline/rules";
+
+export type UpdateDateRuleRequest = Partial<DateRuleInput>;
+
+// GET /api/rules/[id] - Get a single date context rule
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const rule = await prisma.dateRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toDateRuleResponse(rule));
+  } catch (error) {
+    console.error("Error fetching date rule:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch date rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/rules/[id] - Update a date context rule. Like new rules,
+// changes apply to documents whose dates are extracted from now on.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: UpdateDateRuleRequest = await request.json();
+
+    const parsed = parseRuleInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const changes = parsed.input;
+
+    const existing = await prisma.dateRule.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    // Validate the rule as it will be stored, not just the changed fields
+    const rule = withRuleDefaults({ ...ruleInputFromRow(existing), ...changes });
+    const problem = validateContextRule(rule);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const updated = await prisma.dateRule.update({
+      where: { id },
+      data: {
+        ...rule,
+        ...(changes.name !== undefined && { name: changes.name }),
+      },
+    });
+
+    return NextResponse.json(toDateRuleResponse(updated));
+  } catch (error) {
+    console.error("Error updating date rule:", error);
+    return NextResponse.json(
+      { error: "Failed to update date rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/rules/[id] - Delete a date context rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const rule = await prisma.dateRule.findUnique({
+      where: { id },
+    });
+
+    if (!rule) {
+      return NextResponse.json({ error: "Rule not found" }, { status: 404 });
+    }
+
+    await prisma.dateRule.delete({
+      where: { id },
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting date rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete date rule" },
+      { status: 500 }
+    );
+  }
+}
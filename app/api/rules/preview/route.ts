@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { parseRuleChange, previewRuleChange } from "@/lib/pipeline/rulePreview";
+import type { RuleChange, RulePreview } from "@/lib/pipeline/rulePreview";
+
+export interface RulePreviewRequest extends RuleChange {
+  documentId: string;
+}
+
+export type RulePreviewResponse = RulePreview;
+
+// POST /api/rules/preview - Show how adding, updating or removing stored
+// rules would reclassify an existing document's dates, without saving
+export async function POST(request: NextRequest) {
+  try {
+    const { documentId, ...body }: RulePreviewRequest = (await request.json()) ?? {};
+
+    if (!documentId || typeof documentId !== "string") {
+      return NextResponse.json(
+        { error: "documentId is required" },
+        { status: 400 }
+      );
+    }
+
+    const parsed = parseRuleChange(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const preview = await previewRuleChange(documentId, parsed.change);
+
+    if (!preview) {
+      return NextResponse.json({ error: "Document not found" }, { status: 404 });
+    }
+    if ("error" in preview) {
+      return NextResponse.json({ error: preview.error }, { status: 400 });
+    }
+
+    return NextResponse.json(preview as RulePreviewResponse);
+  } catch (error) {
+    console.error("Error previewing date rules:", error);
+    return NextResponse.json(
+      { error: "Failed to preview date rules" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { validateContextRule } from "@/lib/chronology";
+import {
+  baseContextRules,
+  parseRuleInput,
+  toDateRuleResponse,
+  withRuleDefaults,
+} from "@/lib/pipeline/rules";
+import type { DateRuleInput } from "@/lib/pipeline/rules";
+import type { DateContextRule, DateRuleResponse } from "@/lib/types/chronology";
+
+export interface DateRulesResponse {
+  /** Built-in rules (or DATE_RULES_FILE), applied before the stored ones */
+  baseRules: DateContextRule[];
+  rules: DateRuleResponse[];
+}
+
+export interface CreateDateRuleRequest extends DateRuleInput {
+  organizationId?: string | null;
+}
+
+// GET /api/rules?organizationId=xxx - List the date context rules that apply
+// to an organization (all stored rules when no organization is given)
+export async function GET(request: NextRequest) {
+  try {
+    const organizationId = request.nextUrl.searchParams.get("organizationId");
+
+    const rules = await prisma.dateRule.findMany({
+      where: organizationId
+        ? { OR: [{ organizationId: null }, { organizationId }] }
+        : {},
+      orderBy: [{ organizationId: { sort: "asc", nulls: "first" } }, { createdAt: "asc" }],
+    });
+
+    const response: DateRulesResponse = {
+      baseRules: baseContextRules(),
+      rules: rules.map(toDateRuleResponse),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching date rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch date rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/rules - Add a date context rule for an organization, or for all
+// organizations when organizationId is omitted
+//
+// Rules apply to documents processed from now on. Documents already
+// processed keep their dates until they are extracted again, by resuming
+// their run at the "dates" stage (POST /api/runs/[id]/resume). Preview a
+// change against an existing document with POST /api/rules/preview first.
+export async function POST(request: NextRequest) {
+  try {
+    const body: CreateDateRuleRequest = await request.json();
+
+    const parsed = parseRuleInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (
+      body.organizationId !== undefined &&
+      body.organizationId !== null &&
+      typeof body.organizationId !== "string"
+    ) {
+      return NextResponse.json(
+        { error: "organizationId must be a string or null" },
+        { status: 400 }
+      );
+    }
+
+    const rule = withRuleDefaults(parsed.input);
+    const problem = validateContextRule(rule);
+    if (problem) {
+      return NextResponse.json({ error: problem }, { status: 400 });
+    }
+
+    const created = await prisma.dateRule.create({
+      data: {
+        organizationId: body.organizationId ?? null,
+        name: parsed.input.name ?? null,
+        ...rule,
+      },
+    });
+
+    return NextResponse.json(toDateRuleResponse(created), { status: 201 });
+  } catch (error) {
+    console.error("Error creating date rule:", error);
+    return NextResponse.json(
+      { error: "Failed to create date rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { RUN_STAGES, resumeRun, toRunResponse } from "@/lib/pipeline/runs";
+import { wakeWorker } from "@/lib/pipeline/worker";
+import type { RunStage } from "@/lib/types/chronology";
+
+export interface ResumeRunRequest {
+  /**
+   * Stage to restart from; "ocr" reads the document again and "classify"
+   * retries pages that failed
+   */
+  stage?: RunStage;
+}
+
+// POST /api/runs/[id]/resume - Requeue a finished or failed run
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body: ResumeRunRequest = await request.json().catch(() => ({}));
+
+    if (body.stage && !RUN_STAGES.includes(body.stage)) {
+      return NextResponse.json(
+        { error: `stage must be one of: ${RUN_STAGES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.processingRun.findUnique({
+      where: { id },
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    if (body.stage && existing.kind === "prompt_comparison") {
+      return NextResponse.json(
+        { error: "A prompt comparison always starts over; stage can't be set" },
+        { status: 400 }
+      );
+    }
+
+    const run = await resumeRun(id, body.stage);
+    if (!run) {
+      return NextResponse.json(
+        { error: "Run is still in progress" },
+        { status: 409 }
+      );
+    }
+
+    wakeWorker();
+
+    return NextResponse.json(toRunResponse(run), { status: 202 });
+  } catch (error) {
+    console.error("Error resuming run:", error);
+    return NextResponse.json(
+      { error: "Failed to resume run" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { toRunResponse } from "@/lib/pipeline/runs";
+
+// GET /api/runs/[id] - Get a processing run's status and progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const run = await prisma.processingRun.findUnique({
+      where: { id },
+    });
+
+    if (!run) {
+      return NextResponse.json({ error: "Run not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(toRunResponse(run));
+  } catch (error) {
+    console.error("Error fetching run:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch run" },
+      { status: 500 }
+    );
+  }
+}
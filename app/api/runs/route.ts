@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { enqueueRun, toRunResponse } from "@/lib/pipeline/runs";
+import { wakeWorker } from "@/lib/pipeline/worker";
+import type { RunResponse } from "@/lib/types/chronology";
+
+export interface RunsResponse {
+  runs: RunResponse[];
+}
+
+export interface CreateRunRequest {
+  documentId?: string;
+  filename?: string;
+}
+
+export interface CreateRunResponse {
+  run: RunResponse;
+  pdfUrl: string;
+}
+
+// GET /api/runs?documentId=xxx - List processing runs for a document
+export async function GET(request: NextRequest) {
+  try {
+    const documentId = request.nextUrl.searchParams.get("documentId");
+
+    if (!documentId) {
+      return NextResponse.json(
+        { error: "documentId is required" },
+        { status: 400 }
+      );
+    }
+
+    const runs = await prisma.processingRun.findMany({
+      where: { documentId },
+      orderBy: { createdAt: "desc" },
+    });
+
+    const response: RunsResponse = {
+      runs: runs.map(toRunResponse),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error("Error fetching runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch runs" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/runs - Queue a document for background processing
+export async function POST(request: NextRequest) {
+  try {
+    const { documentId, filename }: CreateRunRequest = await request.json();
+
+    if (!filename && !documentId) {
+      return NextResponse.json(
+        { error: "filename or documentId is required" },
+        { status: 400 }
+      );
+    }
+
+    const document = documentId
+      ? await prisma.document.findUnique({ where: { id: documentId } })
+      : await prisma.document.findFirst({ where: { filename } });
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Document not found" },
+        { status: 404 }
+      );
+    }
+
+    const run = await enqueueRun(document.id);
+    wakeWorker();
+
+    const response: CreateRunResponse = {
+      run: toRunResponse(run),
+      pdfUrl: `/api/pdf?filename=${encodeURIComponent(document.filename)}`,
+    };
+
+    return NextResponse.json(response, { status: 202 });
+  } catch (error) {
+    console.error("Error queueing run:", error);
+    return NextResponse.json(
+      { error: "Failed to queue processing run" },
+      { status: 500 }
+    );
+  }
+}
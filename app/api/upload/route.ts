@@ -1,18 +1,7 @@
-import { Storage } from "@google-cloud/storage";
 import { NextRequest, NextResponse } from "next/server";
 import { createHash } from "crypto";
 import { prisma } from "@/lib/db";
-
-// Initialize Google Cloud Storage client
-const storage = new Storage({
-  projectId: process.env.GCS_PROJECT_ID,
-  credentials: {
-    client_email: process.env.GCS_CLIENT_EMAIL,
-    private_key: process.env.GCS_PRIVATE_KEY?.replace(/\\n/g, "\n"),
-  },
-});
-
-const bucketName = process.env.GCS_BUCKET_NAME || "";
+import { getStorage } from "@/lib/storage";
 
 export interface UploadResponse {
   success: boolean;
@@ -25,6 +14,8 @@ export async function POST(request: NextRequest) {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File;
+    // Optional: the organization whose date context rules apply
+    const organizationId = formData.get("organizationId") as string | null;
 
     if (!file) {
       return NextResponse.json({ error: "No file provided" }, { status: 400 });
@@ -53,14 +44,10 @@ export async function POST(request: NextRequest) {
 
     // Generate a unique filename to prevent collisions
     const uniqueFilename = `${Date.now()}-${file.name}`;
-    const bucket = storage.bucket(bucketName);
-    const gcsFile = bucket.file(uniqueFilename);
 
-    // Upload to Google Cloud Storage
-    await gcsFile.save(buffer, {
-      metadata: {
-        contentType: file.type,
-      },
+    // Upload to the configured storage backend
+    await getStorage().put(uniqueFilename, buffer, {
+      contentType: file.type,
     });
 
     // Create document record in database
@@ -69,6 +56,7 @@ export async function POST(request: NextRequest) {
         filename: uniqueFilename,
         gcsPath: uniqueFilename,
         fileHash,
+        organizationId: organizationId || null,
       },
     });
 
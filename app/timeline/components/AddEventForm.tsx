@@ -2,6 +2,8 @@
 
 import { useState } from "react";
 import { format } from "date-fns";
+import { DateInput } from "./DateInput";
+import type { DatePrecision } from "@/lib/types/chronology";
 
 interface AddEventFormProps {
   documentId: string;
@@ -12,6 +14,10 @@ interface AddEventFormProps {
 
 interface NewEvent {
   date: string;
+  datePrecision: DatePrecision;
+  time?: string;
+  endDate?: string;
+  endDatePrecision?: DatePrecision;
   summary: string;
   type: string;
   pageNumber?: number;
@@ -35,6 +41,10 @@ export function AddEventForm({
   onAdd,
 }: AddEventFormProps) {
   const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [datePrecision, setDatePrecision] = useState<DatePrecision>("day");
+  const [time, setTime] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [endDatePrecision, setEndDatePrecision] = useState<DatePrecision>("day");
   const [summary, setSummary] = useState("");
   const [type, setType] = useState("note");
   const [pageNumber, setPageNumber] = useState("");
@@ -53,6 +63,10 @@ export function AddEventForm({
     try {
       await onAdd({
         date,
+        datePrecision,
+        time: datePrecision === "day" && time ? time : undefined,
+        endDate: endDate || undefined,
+        endDatePrecision: endDate ? endDatePrecision : undefined,
         summary: summary.trim(),
         type,
         pageNumber: pageNumber ? parseInt(pageNumber, 10) : undefined,
@@ -60,6 +74,8 @@ export function AddEventForm({
       });
       // Reset form
       setSummary("");
+      setTime("");
+      setEndDate("");
       setType("note");
       setPageNumber("");
       setUserNotes("");
@@ -113,12 +129,43 @@ export function AddEventForm({
             <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
               Date <span className="text-red-500">*</span>
             </label>
-            <input
-              type="date"
-              value={date}
-              onChange={(e) => setDate(e.target.value)}
-              required
-              className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            <DateInput
+              date={date}
+              precision={datePrecision}
+              onChange={(nextDate, nextPrecision) => {
+                setDate(nextDate);
+                setDatePrecision(nextPrecision);
+              }}
+            />
+          </div>
+
+          {/* Time (full dates only) */}
+          {datePrecision === "day" && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Time <span className="text-zinc-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          {/* End date (spans such as hospital stays) */}
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+              End date <span className="text-zinc-400 font-normal">(optional)</span>
+            </label>
+            <DateInput
+              date={endDate}
+              precision={endDatePrecision}
+              onChange={(nextDate, nextPrecision) => {
+                setEndDate(nextDate);
+                setEndDatePrecision(nextPrecision);
+              }}
             />
           </div>
 
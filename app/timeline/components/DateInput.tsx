@@ -0,0 +1,73 @@
+"use client";
+
+import type { DatePrecision } from "@/lib/types/chronology";
+
+interface DateInputProps {
+  /** YYYY-MM-DD, YYYY-MM or YYYY, matching the precision */
+  date: string;
+  precision: DatePrecision;
+  onChange: (date: string, precision: DatePrecision) => void;
+}
+
+const PRECISION_OPTIONS: { value: DatePrecision; label: string }[] = [
+  { value: "day", label: "Exact day" },
+  { value: "month", label: "Month only" },
+  { value: "year", label: "Year only" },
+  { value: "approximate", label: "Approximate" },
+];
+
+/** Reshapes a date string to the form a precision expects */
+function reshapeDate(date: string, precision: DatePrecision): string {
+  switch (precision) {
+    case "year":
+      return date.slice(0, 4);
+    case "month":
+      return date.length >= 7 ? date.slice(0, 7) : date && `${date}-01`;
+    case "day":
+      if (date.length === 4) return `${date}-01-01`;
+      if (date.length === 7) return `${date}-01`;
+      return date;
+    default:
+      return date;
+  }
+}
+
+const inputClassName =
+  "px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export function DateInput({ date, precision, onChange }: DateInputProps) {
+  return (
+    <div className="flex gap-2">
+      {precision === "day" || precision === "month" ? (
+        <input
+          type={precision === "day" ? "date" : "month"}
+          value={date}
+          onChange={(e) => onChange(e.target.value, precision)}
+          className={`flex-1 ${inputClassName}`}
+        />
+      ) : (
+        <input
+          type="text"
+          value={date}
+          onChange={(e) => onChange(e.target.value, precision)}
+          placeholder={precision === "year" ? "YYYY" : "YYYY, YYYY-MM or YYYY-MM-DD"}
+          className={`flex-1 ${inputClassName}`}
+        />
+      )}
+      <select
+        value={precision}
+        onChange={(e) => {
+          const next = e.target.value as DatePrecision;
+          onChange(reshapeDate(date, next), next);
+        }}
+        className={inputClassName}
+      >
+        {PRECISION_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -1,11 +1,23 @@
 "use client";
 
 import { EventTypeBadge } from "./EventTypeBadge";
+import {
+  daysBetween,
+  formatIsoDate,
+  parseIsoDate,
+} from "@/lib/chronology/calendarDate";
+import type { DatePrecision } from "@/lib/types/chronology";
 
 interface EventCardProps {
   event: {
     id: string;
     date: string;
+    datePrecision?: DatePrecision;
+    time?: string | null;
+    endDate?: string | null;
+    endDatePrecision?: DatePrecision | null;
+    rawDateText?: string | null;
+    dateReasoning?: string | null;
     summary: string;
     type: string;
     pageNumber: number | null;
@@ -15,14 +27,29 @@ interface EventCardProps {
     userEdited: boolean;
     userNotes: string | null;
   };
-  onPageClick?: (pageNumber: number) => void;
+  onPageClick?: (pageNumber: number, eventId: string) => void;
   onEdit?: (eventId: string) => void;
 }
 
+/** "Through March 9, 2023 · 7 days" for spans (days elapsed, as for length of stay) */
+function spanLabel(event: EventCardProps["event"]): string | null {
+  if (!event.endDate) return null;
+
+  const through = `Through ${formatIsoDate(event.endDate, event.endDatePrecision ?? undefined)}`;
+  const start = parseIsoDate(event.date);
+  const end = parseIsoDate(event.endDate);
+  const days = start && end ? daysBetween(start, end) : null;
+  if (days === null) return through;
+
+  return `${through} · ${days} day${days !== 1 ? "s" : ""}`;
+}
+
 export function EventCard({ event, onPageClick, onEdit }: EventCardProps) {
+  const span = spanLabel(event);
+
   const handlePageClick = () => {
     if (event.pageNumber && onPageClick) {
-      onPageClick(event.pageNumber);
+      onPageClick(event.pageNumber, event.id);
     }
   };
 
@@ -56,9 +83,28 @@ export function EventCard({ event, onPageClick, onEdit }: EventCardProps) {
                   : "text-zinc-600 dark:text-zinc-400"
               }`}
             >
+              {event.time && (
+                <span className="mr-1.5 font-mono text-xs text-zinc-500 dark:text-zinc-400">
+                  {event.time}
+                </span>
+              )}
               {event.summary}
             </p>
 
+            {span && (
+              <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+                {span}
+              </p>
+            )}
+
+            {event.dateReasoning && (
+              <p className="text-xs text-violet-600 dark:text-violet-400 mt-0.5">
+                Inferred
+                {event.rawDateText && <> from &ldquo;{event.rawDateText}&rdquo;</>}:{" "}
+                {event.dateReasoning}
+              </p>
+            )}
+
             <div className="flex items-center gap-2 mt-1 flex-wrap">
               <EventTypeBadge type={event.type} />
 
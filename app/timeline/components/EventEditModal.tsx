@@ -1,7 +1,9 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { DateInput } from "./DateInput";
 import type { EventResponse } from "@/app/api/events/route";
+import type { DatePrecision } from "@/lib/types/chronology";
 
 interface EventEditModalProps {
   event: EventResponse | null;
@@ -13,6 +15,10 @@ interface EventEditModalProps {
 
 interface EventUpdates {
   date?: string;
+  datePrecision?: DatePrecision;
+  time?: string | null;
+  endDate?: string | null;
+  endDatePrecision?: DatePrecision | null;
   summary?: string;
   type?: string;
   userNotes?: string;
@@ -28,40 +34,47 @@ const EVENT_TYPES = [
   "other",
 ];
 
-export function EventEditModal({
+export function EventEditModal({ event, isOpen, ...props }: EventEditModalProps) {
+  if (!isOpen || !event) return null;
+
+  // Keyed so the form starts over from the event whenever it changes
+  return (
+    <EventEditForm key={`${event.id}:${event.updatedAt}`} event={event} {...props} />
+  );
+}
+
+function EventEditForm({
   event,
-  isOpen,
   onClose,
   onSave,
   onDelete,
-}: EventEditModalProps) {
-  const [date, setDate] = useState("");
-  const [summary, setSummary] = useState("");
-  const [type, setType] = useState("other");
-  const [userNotes, setUserNotes] = useState("");
+}: Omit<EventEditModalProps, "event" | "isOpen"> & { event: EventResponse }) {
+  const [date, setDate] = useState(event.date);
+  const [datePrecision, setDatePrecision] = useState<DatePrecision>(event.datePrecision);
+  const [time, setTime] = useState(event.time ?? "");
+  const [endDate, setEndDate] = useState(event.endDate ?? "");
+  const [endDatePrecision, setEndDatePrecision] = useState<DatePrecision>(
+    event.endDatePrecision ?? "day"
+  );
+  const [summary, setSummary] = useState(event.summary);
+  const [type, setType] = useState(event.type);
+  const [userNotes, setUserNotes] = useState(event.userNotes || "");
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [deleteError, setDeleteError] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (event) {
-      setDate(event.date);
-      setSummary(event.summary);
-      setType(event.type);
-      setUserNotes(event.userNotes || "");
-    }
-  }, [event]);
-
-  if (!isOpen || !event) return null;
-
   const handleSave = async () => {
     setSaving(true);
     setSaveError(null);
     try {
       await onSave(event.id, {
         date,
+        datePrecision,
+        time: datePrecision === "day" && time ? time : null,
+        endDate: endDate || null,
+        endDatePrecision: endDate ? endDatePrecision : null,
         summary,
         type,
         userNotes: userNotes || undefined,
@@ -130,11 +143,43 @@ export function EventEditModal({
             <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
               Date
             </label>
-            <input
-              type="date"
-              value={date}
-              onChange={(e) => setDate(e.target.value)}
-              className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            <DateInput
+              date={date}
+              precision={datePrecision}
+              onChange={(nextDate, nextPrecision) => {
+                setDate(nextDate);
+                setDatePrecision(nextPrecision);
+              }}
+            />
+          </div>
+
+          {/* Time (full dates only) */}
+          {datePrecision === "day" && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                Time <span className="text-zinc-400 font-normal">(optional)</span>
+              </label>
+              <input
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-600 rounded-lg bg-white dark:bg-zinc-700 text-zinc-900 dark:text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+
+          {/* End date (spans such as hospital stays) */}
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+              End date <span className="text-zinc-400 font-normal">(optional)</span>
+            </label>
+            <DateInput
+              date={endDate}
+              precision={endDatePrecision}
+              onChange={(nextDate, nextPrecision) => {
+                setEndDate(nextDate);
+                setEndDatePrecision(nextPrecision);
+              }}
             />
           </div>
 
@@ -1,19 +1,29 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { format, parseISO } from "date-fns";
+import {
+  compareCalendarDates,
+  compareIsoDates,
+  formatIsoDate,
+  parseIsoDate,
+} from "@/lib/chronology/calendarDate";
+import { compareTimesOfDay } from "@/lib/chronology/timeOfDay";
 import { EventCard } from "./EventCard";
 import { EventTypeBadge } from "./EventTypeBadge";
 import type { EventResponse } from "@/app/api/events/route";
+import type { DatePrecision } from "@/lib/types/chronology";
 
 interface EventTimelineProps {
   documentId: string;
-  onPageClick: (pageNumber: number) => void;
+  /** Called with the event whose page was clicked, to highlight its date and evidence */
+  onPageClick: (pageNumber: number, eventId?: string) => void;
   onEditEvent?: (eventId: string) => void;
 }
 
 interface DateGroup {
   date: string;
+  /** "approximate" only if every event in the group is approximate */
+  precision: DatePrecision;
   displayDate: string;
   events: EventResponse[];
 }
@@ -116,27 +126,38 @@ export function EventTimeline({
     const existing = groups.find((g) => g.date === event.date);
     if (existing) {
       existing.events.push(event);
-    } else {
-      let displayDate = event.date;
-      try {
-        displayDate = format(parseISO(event.date), "MMMM d, yyyy");
-      } catch {
-        // Use raw date if parsing fails
+      if (existing.precision === "approximate" && event.datePrecision !== "approximate") {
+        existing.precision = event.datePrecision;
+        existing.displayDate = formatIsoDate(event.date, event.datePrecision);
       }
+    } else {
       groups.push({
         date: event.date,
-        displayDate,
+        precision: event.datePrecision,
+        displayDate: formatIsoDate(event.date, event.datePrecision),
         events: [event],
       });
     }
     return groups;
   }, [] as DateGroup[]);
 
-  // Sort by date based on sortOrder
+  // Sort by date based on sortOrder; partial dates lead the period they cover
+  const compareGroups = (a: DateGroup, b: DateGroup) => {
+    const da = parseIsoDate(a.date, a.precision === "approximate");
+    const db = parseIsoDate(b.date, b.precision === "approximate");
+    return da && db ? compareCalendarDates(da, db) : compareIsoDates(a.date, b.date);
+  };
   dateGroups.sort((a, b) =>
-    sortOrder === "desc"
-      ? b.date.localeCompare(a.date)
-      : a.date.localeCompare(b.date)
+    sortOrder === "desc" ? compareGroups(b, a) : compareGroups(a, b)
+  );
+
+  // Within a day, order by time of day in the same direction; untimed events stay last
+  dateGroups.forEach((group) =>
+    group.events.sort((a, b) =>
+      a.time && b.time && sortOrder === "desc"
+        ? compareTimesOfDay(b.time, a.time)
+        : compareTimesOfDay(a.time, b.time)
+    )
   );
 
   const toggleDate = (date: string) => {
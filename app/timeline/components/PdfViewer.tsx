@@ -1,9 +1,10 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { Document, Page, pdfjs } from "react-pdf";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
+import type { Highlight } from "@/lib/types/chronology";
 
 // Set up PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
@@ -13,13 +14,26 @@ interface PdfViewerProps {
   currentPage: number;
   onPageChange: (page: number) => void;
   onClose: () => void;
+  /** Text to outline on its page, in reading order */
+  highlights?: Highlight[];
+  /** The selected highlight, scrolled into view */
+  highlightIndex?: number;
+  onHighlightChange?: (index: number) => void;
 }
 
+const HIGHLIGHT_COLORS: Record<Highlight["kind"], string> = {
+  date: "bg-amber-300/40 border-amber-500",
+  evidence: "bg-blue-300/25 border-blue-500",
+};
+
 export default function PdfViewer({
   url,
   currentPage,
   onPageChange,
   onClose,
+  highlights = [],
+  highlightIndex = 0,
+  onHighlightChange,
 }: PdfViewerProps) {
   const [numPages, setNumPages] = useState<number>(0);
   const [scale, setScale] = useState<number>(1.0);
@@ -47,6 +61,27 @@ export default function PdfViewer({
     }
   };
 
+  const activeHighlight = highlights[highlightIndex];
+  const pageHighlights = highlights
+    .map((highlight, index) => ({ highlight, index }))
+    .filter(({ highlight }) => highlight.pageNumber === currentPage);
+  const activeHighlightRef = useRef<HTMLDivElement>(null);
+
+  const scrollToActiveHighlight = useCallback(() => {
+    activeHighlightRef.current?.scrollIntoView({ block: "center", behavior: "smooth" });
+  }, []);
+
+  useEffect(() => {
+    scrollToActiveHighlight();
+  }, [highlightIndex, highlights, scrollToActiveHighlight]);
+
+  const goToHighlight = (index: number) => {
+    const highlight = highlights[index];
+    if (!highlight) return;
+    onHighlightChange?.(index);
+    if (highlight.pageNumber !== currentPage) onPageChange(highlight.pageNumber);
+  };
+
   const zoomIn = () => setScale((s) => Math.min(s + 0.25, 3));
   const zoomOut = () => setScale((s) => Math.max(s - 0.25, 0.5));
   const resetZoom = () => setScale(1);
@@ -129,6 +164,66 @@ export default function PdfViewer({
         </div>
       </div>
 
+      {/* Highlight navigation */}
+      {activeHighlight && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-zinc-200 dark:border-zinc-700 bg-amber-50 dark:bg-amber-900/20">
+          <button
+            onClick={() => goToHighlight(highlightIndex - 1)}
+            disabled={highlightIndex <= 0}
+            className="p-1 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Previous highlight"
+          >
+            <svg
+              className="w-4 h-4 text-zinc-600 dark:text-zinc-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 19l-7-7 7-7"
+              />
+            </svg>
+          </button>
+          <span className="text-xs font-medium text-zinc-700 dark:text-zinc-300 whitespace-nowrap">
+            {highlightIndex + 1} of {highlights.length}
+          </span>
+          <button
+            onClick={() => goToHighlight(highlightIndex + 1)}
+            disabled={highlightIndex >= highlights.length - 1}
+            className="p-1 hover:bg-amber-100 dark:hover:bg-amber-900/40 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Next highlight"
+          >
+            <svg
+              className="w-4 h-4 text-zinc-600 dark:text-zinc-400"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 5l7 7-7 7"
+              />
+            </svg>
+          </button>
+          <p className="flex-1 min-w-0 truncate text-xs text-zinc-600 dark:text-zinc-400">
+            <span className="font-medium">
+              {activeHighlight.kind === "date" ? "Date" : "Evidence"}:
+            </span>{" "}
+            &ldquo;{activeHighlight.text}&rdquo;
+            {activeHighlight.boxes.length === 0 && (
+              <span className="ml-1 italic text-zinc-400 dark:text-zinc-500">
+                (not located on page)
+              </span>
+            )}
+          </p>
+        </div>
+      )}
+
       {/* PDF content */}
       <div className="flex-1 overflow-auto bg-zinc-100 dark:bg-zinc-950">
         {error ? (
@@ -162,16 +257,40 @@ export default function PdfViewer({
                 </div>
               }
             >
-              <Page
-                pageNumber={currentPage}
-                scale={scale}
-                loading={
-                  <div className="flex items-center justify-center py-12">
-                    <div className="animate-spin h-6 w-6 border-2 border-blue-500 border-t-transparent rounded-full" />
-                  </div>
-                }
-                className="shadow-lg"
-              />
+              <div className="relative">
+                <Page
+                  pageNumber={currentPage}
+                  scale={scale}
+                  onRenderSuccess={scrollToActiveHighlight}
+                  loading={
+                    <div className="flex items-center justify-center py-12">
+                      <div className="animate-spin h-6 w-6 border-2 border-blue-500 border-t-transparent rounded-full" />
+                    </div>
+                  }
+                  className="shadow-lg"
+                />
+
+                {/* Highlight overlays, positioned as fractions of the page */}
+                {pageHighlights.map(({ highlight, index }) =>
+                  highlight.boxes.map((box, i) => (
+                    <div
+                      key={`${index}-${i}`}
+                      ref={index === highlightIndex && i === 0 ? activeHighlightRef : undefined}
+                      onClick={() => onHighlightChange?.(index)}
+                      title={highlight.text}
+                      className={`absolute border rounded-sm cursor-pointer ${
+                        HIGHLIGHT_COLORS[highlight.kind]
+                      } ${index === highlightIndex ? "ring-2 ring-amber-500" : ""}`}
+                      style={{
+                        left: `${box.left * 100}%`,
+                        top: `${box.top * 100}%`,
+                        width: `${(box.right - box.left) * 100}%`,
+                        height: `${(box.bottom - box.top) * 100}%`,
+                      }}
+                    />
+                  ))
+                )}
+              </div>
             </Document>
           </div>
         )}
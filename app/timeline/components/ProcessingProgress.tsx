@@ -133,6 +133,41 @@ export function ProcessingProgress({ status }: ProcessingProgressProps) {
         </span>
       </div>
 
+      {/* Live counters from the server-side run */}
+      {status.counts && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-4">
+          <Counter
+            label="Pages read"
+            value={
+              status.counts.totalPages > 0
+                ? `${status.counts.pagesOcred} / ${status.counts.totalPages}`
+                : `${status.counts.pagesOcred}`
+            }
+          />
+          <Counter
+            label="Pages classified"
+            value={`${status.counts.pagesClassified} / ${status.counts.pagesToClassify}`}
+          />
+          <Counter
+            label="Events created"
+            value={`${status.counts.eventsCreated}`}
+          />
+          <Counter
+            label="Errors"
+            value={`${status.counts.failedPages}`}
+            highlight={status.counts.failedPages > 0}
+          />
+        </div>
+      )}
+
+      {status.counts && status.counts.failedPageNumbers.length > 0 && (
+        <p className="mt-3 text-xs text-amber-700 dark:text-amber-300">
+          Classification failed on page
+          {status.counts.failedPageNumbers.length > 1 ? "s" : ""}{" "}
+          {status.counts.failedPageNumbers.join(", ")}
+        </p>
+      )}
+
       {status.error && (
         <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
           <p className="text-sm text-red-800 dark:text-red-200">
@@ -143,3 +178,26 @@ export function ProcessingProgress({ status }: ProcessingProgressProps) {
     </div>
   );
 }
+
+interface CounterProps {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+function Counter({ label, value, highlight }: CounterProps) {
+  return (
+    <div className="p-2 rounded-lg bg-zinc-50 dark:bg-zinc-900/50">
+      <p className="text-xs text-zinc-500 dark:text-zinc-400">{label}</p>
+      <p
+        className={`text-sm font-semibold tabular-nums ${
+          highlight
+            ? "text-amber-600 dark:text-amber-400"
+            : "text-zinc-900 dark:text-zinc-100"
+        }`}
+      >
+        {value}
+      </p>
+    </div>
+  );
+}
@@ -7,6 +7,12 @@ interface StatsProps {
 }
 
 export function Stats({ stats }: StatsProps) {
+  // e.g. "10 forward, 2 backward"
+  const inheritedBreakdown = Object.entries(stats.inheritedByStrategy)
+    .filter(([, count]) => count > 0)
+    .map(([strategy, count]) => `${count} ${strategy}`)
+    .join(", ");
+
   return (
     <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
       <div className="bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-4">
@@ -38,6 +44,11 @@ export function Stats({ stats }: StatsProps) {
         <p className="text-sm text-zinc-500 dark:text-zinc-400">
           Dated (Inherited)
         </p>
+        {inheritedBreakdown && (
+          <p className="text-xs text-zinc-400 dark:text-zinc-500 mt-1">
+            {inheritedBreakdown}
+          </p>
+        )}
       </div>
       <div className="bg-white dark:bg-zinc-800 rounded-lg border border-zinc-200 dark:border-zinc-700 p-4">
         <p className="text-2xl font-bold text-amber-600 dark:text-amber-400">
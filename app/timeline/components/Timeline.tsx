@@ -2,7 +2,7 @@
 
 import { useMemo } from "react";
 import type { ChronologyResult, PageCluster } from "@/lib/types/chronology";
-import { format, parseISO } from "date-fns";
+import { compareIsoDates, formatIsoDate } from "@/lib/chronology/calendarDate";
 
 interface TimelineProps {
   chronologyResult: ChronologyResult;
@@ -30,18 +30,10 @@ export function Timeline({
       map.set(cluster.dateOfService, existing);
     }
     // Sort dates chronologically
-    return Array.from(map.entries()).sort(
-      ([a], [b]) => new Date(a).getTime() - new Date(b).getTime()
-    );
+    return Array.from(map.entries()).sort(([a], [b]) => compareIsoDates(a, b));
   }, [chronologyResult.clusters]);
 
-  const formatDate = (dateStr: string) => {
-    try {
-      return format(parseISO(dateStr), "MMMM d, yyyy");
-    } catch {
-      return dateStr;
-    }
-  };
+  const formatDate = (dateStr: string) => formatIsoDate(dateStr);
 
   const formatPageRange = (pages: number[]) => {
     if (pages.length === 1) return `p. ${pages[0]}`;
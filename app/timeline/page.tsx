@@ -1,14 +1,20 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useStore } from "@/lib/store";
 import { ProcessingProgress } from "./components/ProcessingProgress";
 import { EventTimeline } from "./components/EventTimeline";
 import { EventEditModal } from "./components/EventEditModal";
 import { AddEventForm } from "./components/AddEventForm";
+import { Timeline } from "./components/Timeline";
+import { Stats } from "./components/Stats";
 import Link from "next/link";
 import dynamic from "next/dynamic";
+import { runToProcessingStatus, watchDocumentProgress } from "@/lib/runProgress";
 import type { EventResponse } from "@/app/api/events/route";
+import type { EventHighlightsResponse } from "@/app/api/events/[id]/highlights/route";
+import type { ChronologyResponse } from "@/app/api/documents/[id]/clusters/route";
+import type { DatePrecision } from "@/lib/types/chronology";
 
 const PdfViewer = dynamic(() => import("./components/PdfViewer"), {
   ssr: false,
@@ -21,20 +27,82 @@ const PdfViewer = dynamic(() => import("./components/PdfViewer"), {
 
 export default function TimelinePage() {
   const currentDocumentId = useStore((state) => state.currentDocumentId);
+  const currentRunId = useStore((state) => state.currentRunId);
+  const setCurrentRunId = useStore((state) => state.setCurrentRunId);
   const processingStatus = useStore((state) => state.processingStatus);
+  const setProcessingStatus = useStore((state) => state.setProcessingStatus);
   const pdfUrl = useStore((state) => state.pdfUrl);
   const viewerOpen = useStore((state) => state.viewerOpen);
   const viewerPage = useStore((state) => state.viewerPage);
   const openViewer = useStore((state) => state.openViewer);
   const closeViewer = useStore((state) => state.closeViewer);
   const setViewerPage = useStore((state) => state.setViewerPage);
+  const viewerHighlights = useStore((state) => state.viewerHighlights);
+  const viewerHighlightIndex = useStore((state) => state.viewerHighlightIndex);
+  const setViewerHighlights = useStore((state) => state.setViewerHighlights);
+  const setViewerHighlightIndex = useStore((state) => state.setViewerHighlightIndex);
+  const expandedDates = useStore((state) => state.expandedDates);
+  const toggleDateExpanded = useStore((state) => state.toggleDateExpanded);
+  const selectedClusterId = useStore((state) => state.selectedClusterId);
+  const setSelectedCluster = useStore((state) => state.setSelectedCluster);
 
   const [editingEvent, setEditingEvent] = useState<EventResponse | null>(null);
   const [showAddEvent, setShowAddEvent] = useState(false);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [chronology, setChronology] = useState<ChronologyResponse | null>(null);
 
-  const handlePageClick = (pageNumber: number) => {
+  // Follow a run that is still processing server-side (e.g. after a reload)
+  useEffect(() => {
+    if (!currentRunId || !currentDocumentId) return;
+
+    return watchDocumentProgress(currentDocumentId, (run) => {
+      if (!run) {
+        setCurrentRunId(null);
+        return;
+      }
+
+      setProcessingStatus(runToProcessingStatus(run));
+
+      if (run.status === "completed" || run.status === "failed") {
+        setCurrentRunId(null);
+        setRefreshKey((k) => k + 1);
+      }
+    });
+  }, [currentRunId, currentDocumentId, setCurrentRunId, setProcessingStatus]);
+
+  // Pages grouped by date of service, as clustered when the run finished
+  useEffect(() => {
+    if (!currentDocumentId) return;
+
+    async function fetchClusters() {
+      try {
+        const response = await fetch(`/api/documents/${currentDocumentId}/clusters`);
+        if (response.ok) {
+          setChronology(await response.json());
+        }
+      } catch (error) {
+        console.error("Failed to fetch clusters:", error);
+      }
+    }
+
+    fetchClusters();
+  }, [currentDocumentId, refreshKey]);
+
+  const handlePageClick = async (pageNumber: number, eventId?: string) => {
     openViewer(pageNumber);
+    setViewerHighlights([]);
+    if (!eventId) return;
+
+    // Outline the event's date and supporting sentence on the page
+    try {
+      const response = await fetch(`/api/events/${eventId}/highlights`);
+      if (response.ok) {
+        const data: EventHighlightsResponse = await response.json();
+        setViewerHighlights(data.highlights);
+      }
+    } catch (error) {
+      console.error("Failed to fetch highlights:", error);
+    }
   };
 
   const handleEditEvent = useCallback(async (eventId: string) => {
@@ -54,6 +122,10 @@ export default function TimelinePage() {
       eventId: string,
       updates: {
         date?: string;
+        datePrecision?: DatePrecision;
+        time?: string | null;
+        endDate?: string | null;
+        endDatePrecision?: DatePrecision | null;
         summary?: string;
         type?: string;
         userNotes?: string;
@@ -81,6 +153,10 @@ export default function TimelinePage() {
   const handleAddEvent = useCallback(
     async (event: {
       date: string;
+      datePrecision: DatePrecision;
+      time?: string;
+      endDate?: string;
+      endDatePrecision?: DatePrecision;
       summary: string;
       type: string;
       pageNumber?: number;
@@ -172,6 +248,28 @@ export default function TimelinePage() {
             </div>
           )}
 
+          {/* Pages by date of service */}
+          {currentDocumentId &&
+            chronology?.documentId === currentDocumentId &&
+            (chronology.clusters.length > 0 || chronology.undatedPages.length > 0) && (
+              <div className="mb-8 space-y-6">
+                <Stats stats={chronology.stats} />
+                <div className="bg-white dark:bg-zinc-800 rounded-xl border border-zinc-200 dark:border-zinc-700 p-6">
+                  <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-6">
+                    Pages by Date of Service
+                  </h2>
+                  <Timeline
+                    chronologyResult={chronology}
+                    expandedDates={expandedDates}
+                    onToggleDate={toggleDateExpanded}
+                    onPageClick={handlePageClick}
+                    selectedClusterId={selectedClusterId}
+                    onClusterSelect={setSelectedCluster}
+                  />
+                </div>
+              </div>
+            )}
+
           {/* Event Timeline */}
           {currentDocumentId && (
             <div className="bg-white dark:bg-zinc-800 rounded-xl border border-zinc-200 dark:border-zinc-700 p-6">
@@ -242,6 +340,9 @@ export default function TimelinePage() {
             currentPage={viewerPage}
             onPageChange={setViewerPage}
             onClose={closeViewer}
+            highlights={viewerHighlights}
+            highlightIndex={viewerHighlightIndex}
+            onHighlightChange={setViewerHighlightIndex}
           />
         </div>
       )}
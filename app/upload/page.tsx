@@ -1,10 +1,11 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useStore } from "@/lib/store";
 import { useRouter } from "next/navigation";
 import { ProcessingProgress } from "../timeline/components/ProcessingProgress";
-import type { ProcessResponse } from "../api/process/route";
+import { runToProcessingStatus, watchDocumentProgress } from "@/lib/runProgress";
+import type { CreateRunResponse } from "../api/runs/route";
 import type { UploadResponse } from "../api/upload/route";
 
 interface UploadStatus {
@@ -19,6 +20,9 @@ export default function UploadPage() {
   const selectedDoc = useStore((state) => state.selectedDoc);
   const setSelectedDoc = useStore((state) => state.setSelectedDoc);
   const setCurrentDocumentId = useStore((state) => state.setCurrentDocumentId);
+  const currentDocumentId = useStore((state) => state.currentDocumentId);
+  const currentRunId = useStore((state) => state.currentRunId);
+  const setCurrentRunId = useStore((state) => state.setCurrentRunId);
   const setPdfUrl = useStore((state) => state.setPdfUrl);
   const processingStatus = useStore((state) => state.processingStatus);
   const setProcessingStatus = useStore((state) => state.setProcessingStatus);
@@ -113,73 +117,24 @@ export default function UploadPage() {
     resetProcessing();
 
     try {
-      // Phase 1: OCR + Date Extraction
-      setProcessingPhase("ocr", 10);
-      setProcessingStatus({ message: "Running OCR on PDF pages..." });
+      setProcessingPhase("ocr", 5);
+      setProcessingStatus({ message: "Queueing document for processing..." });
 
-      const processResponse = await fetch("/api/process", {
+      const response = await fetch("/api/runs", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ filename: selectedDoc }),
       });
 
-      if (!processResponse.ok) throw new Error("OCR processing failed");
+      if (!response.ok) throw new Error("Failed to queue document");
 
-      const processData: ProcessResponse = await processResponse.json();
-      const documentId = processData.documentId;
+      const data: CreateRunResponse = await response.json();
 
-      // Store document ID in state
-      setCurrentDocumentId(documentId);
-      setPdfUrl(processData.pdfUrl);
-
-      if (processData.fromCache) {
-        setProcessingPhase("extracting", 40);
-        setProcessingStatus({
-          message: `Loaded ${processData.totalPages} pages from cache`,
-        });
-      } else {
-        setProcessingPhase("extracting", 40);
-        setProcessingStatus({
-          message: `Processed ${processData.totalPages} pages, ${processData.pagesWithDates.length} have dates`,
-        });
-      }
-
-      // Phase 2: LLM Classification for ALL pages with dates
-      if (processData.pagesWithDates.length > 0) {
-        setProcessingPhase("classifying", 50);
-        setProcessingStatus({
-          message: `Analyzing ${processData.pagesWithDates.length} pages with AI...`,
-        });
-
-        const pagesToClassify = processData.pages
-          .filter((p) => processData.pagesWithDates.includes(p.pageNumber))
-          .map((p) => ({
-            pageNumber: p.pageNumber,
-            text: p.text,
-            extractedDates: p.extractedDates,
-          }));
-
-        const classifyResponse = await fetch("/api/classify", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ documentId, pages: pagesToClassify }),
-        });
-
-        if (classifyResponse.ok) {
-          const classifyData = await classifyResponse.json();
-          setProcessingStatus({
-            message: `Created ${classifyData.eventsCreated} events from AI analysis`,
-          });
-        }
-      }
-
-      setProcessingPhase("done", 100);
-      setProcessingStatus({ message: "Processing complete!" });
-
-      // Navigate to timeline after short delay
-      setTimeout(() => {
-        router.push("/timeline");
-      }, 1000);
+      // Store document and run IDs in state; the run continues server-side
+      // even if this tab is closed
+      setCurrentDocumentId(data.run.documentId);
+      setPdfUrl(data.pdfUrl);
+      setCurrentRunId(data.run.id);
     } catch (error) {
       console.error("Error processing document:", error);
       setProcessingPhase("error", 0);
@@ -190,6 +145,29 @@ export default function UploadPage() {
     }
   };
 
+  useEffect(() => {
+    if (!currentRunId || !currentDocumentId) return;
+
+    return watchDocumentProgress(currentDocumentId, (run) => {
+      if (!run) {
+        setCurrentRunId(null);
+        return;
+      }
+
+      setProcessingStatus(runToProcessingStatus(run));
+
+      if (run.status === "failed") {
+        setCurrentRunId(null);
+      } else if (run.status === "completed") {
+        setCurrentRunId(null);
+        // Navigate to timeline after short delay
+        setTimeout(() => {
+          router.push("/timeline");
+        }, 1000);
+      }
+    });
+  }, [currentRunId, currentDocumentId, router, setCurrentRunId, setProcessingStatus]);
+
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-zinc-900 p-8">
       <div className="max-w-2xl mx-auto">
@@ -0,0 +1,11 @@
+/**
+ * Next.js server startup hook. Starts the background pipeline worker unless
+ * JOB_WORKER=off (e.g. for web-only replicas).
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+  if (process.env.JOB_WORKER === "off") return;
+
+  const { startWorker } = await import("@/lib/pipeline/worker");
+  startWorker();
+}
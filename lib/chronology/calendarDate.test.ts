@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  calendarDate,
+  compareIsoDates,
+  daysBetween,
+  formatIsoDate,
+  parseIsoDate,
+  shiftCalendarDate,
+  toIsoDate,
+} from "./calendarDate";
+
+describe("calendarDate", () => {
+  it("rejects days that don't exist instead of rolling over", () => {
+    expect(calendarDate(2023, 2, 29)).toBeNull();
+    expect(calendarDate(2024, 2, 29)).toEqual({ year: 2024, month: 2, day: 29, precision: "day" });
+    expect(calendarDate(2023, 4, 31)).toBeNull();
+    expect(calendarDate(2023, 13)).toBeNull();
+  });
+
+  it("takes its precision from the finest part given", () => {
+    expect(calendarDate(2023, 3)?.precision).toBe("month");
+    expect(calendarDate(2023)?.precision).toBe("year");
+  });
+
+  it("needs a month to have a day", () => {
+    expect(calendarDate(2023, undefined, 5)).toBeNull();
+  });
+});
+
+describe("ISO dates", () => {
+  it.each(["2023-03-04", "2023-03", "2023"])("round-trips %s", (iso) => {
+    expect(toIsoDate(parseIsoDate(iso)!)).toBe(iso);
+  });
+
+  it.each(["2023-02-30", "2023-3-4", "03/04/2023", ""])("rejects %j", (iso) => {
+    expect(parseIsoDate(iso)).toBeNull();
+  });
+
+  it("marks approximate dates", () => {
+    expect(parseIsoDate("2019", true)?.precision).toBe("approximate");
+  });
+});
+
+describe("ordering", () => {
+  it("sorts partial dates at the start of their period, approximate after exact", () => {
+    const sorted = ["2024-01-01", "2024-01", "2023-12-31", "2024"].sort(compareIsoDates);
+    expect(sorted).toEqual(["2023-12-31", "2024", "2024-01", "2024-01-01"]);
+  });
+
+  it("sorts unparseable dates last", () => {
+    expect(["garbage", "2020"].sort(compareIsoDates)).toEqual(["2020", "garbage"]);
+  });
+});
+
+describe("formatting", () => {
+  it("shows only what is known", () => {
+    expect(formatIsoDate("2024-01-05")).toBe("January 5, 2024");
+    expect(formatIsoDate("2024-01")).toBe("January 2024");
+    expect(formatIsoDate("2024-01", "approximate")).toBe("c. January 2024");
+  });
+
+  it("leaves unparseable text alone", () => {
+    expect(formatIsoDate("soon")).toBe("soon");
+  });
+});
+
+describe("date arithmetic", () => {
+  it("counts days across a DST change and a leap day", () => {
+    expect(daysBetween(parseIsoDate("2024-02-28")!, parseIsoDate("2024-03-31")!)).toBe(32);
+  });
+
+  it("needs days on both ends", () => {
+    expect(daysBetween(parseIsoDate("2024-02")!, parseIsoDate("2024-03-31")!)).toBeNull();
+  });
+
+  it("shifts days across month and year ends", () => {
+    expect(toIsoDate(shiftCalendarDate(parseIsoDate("2023-12-30")!, 3, "day")!)).toBe("2024-01-02");
+    expect(toIsoDate(shiftCalendarDate(parseIsoDate("2024-03-01")!, -1, "week")!)).toBe("2024-02-23");
+  });
+
+  it("drops the day when shifting by months or years", () => {
+    expect(toIsoDate(shiftCalendarDate(parseIsoDate("2024-01-31")!, -3, "month")!)).toBe("2023-10");
+    expect(toIsoDate(shiftCalendarDate(parseIsoDate("2024-01-31")!, 1, "year")!)).toBe("2025");
+  });
+
+  it("can't shift by a unit finer than the date", () => {
+    expect(shiftCalendarDate(parseIsoDate("2024-01")!, 2, "day")).toBeNull();
+  });
+});
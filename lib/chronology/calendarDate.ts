@@ -0,0 +1,194 @@
+import type { CalendarDate, DatePrecision, DateUnit } from "@/lib/types/chronology";
+
+/** Every precision a date may have */
+export const DATE_PRECISIONS: DatePrecision[] = ["day", "month", "year", "approximate"];
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/** Number of days in a 1-based month */
+export function daysInMonth(year: number, month: number): number {
+  if (month === 2) return isLeapYear(year) ? 29 : 28;
+  return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+/**
+ * Builds a calendar date, or returns null if it doesn't exist (e.g. Feb 30).
+ * Month and day are 1-based and may be omitted for partial dates; precision
+ * defaults to the finest part given. Unlike `new Date`, nothing rolls over
+ * and the host timezone is never consulted.
+ */
+export function calendarDate(
+  year: number,
+  month?: number,
+  day?: number,
+  precision?: DatePrecision
+): CalendarDate | null {
+  if (!Number.isInteger(year) || year < 1 || year > 9999) return null;
+  if (day !== undefined && month === undefined) return null;
+  if (month !== undefined) {
+    if (!Number.isInteger(month) || month < 1 || month > 12) return null;
+  }
+  if (day !== undefined) {
+    if (!Number.isInteger(day) || day < 1 || day > daysInMonth(year, month!)) {
+      return null;
+    }
+  }
+
+  return {
+    year,
+    ...(month !== undefined && { month }),
+    ...(day !== undefined && { day }),
+    precision:
+      precision ?? (day !== undefined ? "day" : month !== undefined ? "month" : "year"),
+  };
+}
+
+/**
+ * Parses YYYY-MM-DD, or the partial forms YYYY-MM and YYYY. Pass
+ * `approximate` for dates that were only stated roughly.
+ */
+export function parseIsoDate(
+  iso: string,
+  approximate = false
+): CalendarDate | null {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(iso.trim());
+  if (!match) return null;
+  return calendarDate(
+    parseInt(match[1]),
+    match[2] !== undefined ? parseInt(match[2]) : undefined,
+    match[3] !== undefined ? parseInt(match[3]) : undefined,
+    approximate ? "approximate" : undefined
+  );
+}
+
+/** Formats a calendar date as YYYY-MM-DD, YYYY-MM or YYYY, depending on what is known */
+export function toIsoDate(date: CalendarDate): string {
+  let iso = String(date.year).padStart(4, "0");
+  if (date.month !== undefined) iso += `-${String(date.month).padStart(2, "0")}`;
+  if (date.day !== undefined) iso += `-${String(date.day).padStart(2, "0")}`;
+  return iso;
+}
+
+/**
+ * Normalizes a full or partial ISO date string, or returns null if it isn't
+ * a real date.
+ */
+export function normalizeIsoDate(iso: string): string | null {
+  const date = parseIsoDate(iso);
+  return date ? toIsoDate(date) : null;
+}
+
+/** The precision an ISO string expresses on its own (never "approximate") */
+export function isoPrecision(iso: string): DatePrecision | null {
+  return parseIsoDate(iso)?.precision ?? null;
+}
+
+/**
+ * Chronological comparison, suitable for Array.prototype.sort.
+ *
+ * A partial date sorts at the start of the period it covers, before any
+ * more exact date inside it ("2024" < "January 2024" < "January 1, 2024"),
+ * and approximate dates sort after exact ones stated at the same level.
+ */
+export function compareCalendarDates(a: CalendarDate, b: CalendarDate): number {
+  return (
+    a.year - b.year ||
+    (a.month ?? 0) - (b.month ?? 0) ||
+    (a.day ?? 0) - (b.day ?? 0) ||
+    Number(a.precision === "approximate") - Number(b.precision === "approximate")
+  );
+}
+
+/**
+ * Chronological comparison of ISO date strings (full or partial). Strings
+ * that don't parse sort after every valid date.
+ */
+export function compareIsoDates(a: string, b: string): number {
+  const da = parseIsoDate(a);
+  const db = parseIsoDate(b);
+  if (!da || !db) return (da ? 0 : 1) - (db ? 0 : 1);
+  return compareCalendarDates(da, db);
+}
+
+/**
+ * Formats a calendar date for display at the precision it is known, e.g.
+ * "January 5, 2024", "January 2024", "2024" or "c. January 2024".
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+  let text = String(date.year);
+  if (date.month !== undefined) {
+    const month = MONTH_NAMES[date.month - 1];
+    text = date.day !== undefined ? `${month} ${date.day}, ${date.year}` : `${month} ${date.year}`;
+  }
+  return date.precision === "approximate" ? `c. ${text}` : text;
+}
+
+/**
+ * Formats an ISO date string for display, returning it unchanged if it
+ * doesn't parse.
+ */
+export function formatIsoDate(iso: string, precision?: DatePrecision): string {
+  const date = parseIsoDate(iso, precision === "approximate");
+  return date ? formatCalendarDate(date) : iso;
+}
+
+/**
+ * Whole days from `start` to `end`, or null unless both dates give a day.
+ * Uses UTC arithmetic, so DST changes never shift the count.
+ */
+export function daysBetween(start: CalendarDate, end: CalendarDate): number | null {
+  if (start.day === undefined || end.day === undefined) return null;
+  const from = Date.UTC(start.year, start.month! - 1, start.day);
+  const to = Date.UTC(end.year, end.month! - 1, end.day);
+  return Math.round((to - from) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Moves a calendar date by `amount` units (negative to go back), or returns
+ * null if the date lacks the part the unit works on. Month and year moves
+ * drop the finer parts: "3 months ago" names a month, not a day.
+ */
+export function shiftCalendarDate(
+  date: CalendarDate,
+  amount: number,
+  unit: DateUnit
+): CalendarDate | null {
+  switch (unit) {
+    case "day":
+    case "week": {
+      if (date.day === undefined) return null;
+      const shifted = new Date(
+        Date.UTC(date.year, date.month! - 1, date.day + (unit === "week" ? amount * 7 : amount))
+      );
+      return calendarDate(
+        shifted.getUTCFullYear(),
+        shifted.getUTCMonth() + 1,
+        shifted.getUTCDate()
+      );
+    }
+    case "month": {
+      if (date.month === undefined) return null;
+      const months = date.year * 12 + (date.month - 1) + amount;
+      return calendarDate(Math.floor(months / 12), (months % 12) + 1);
+    }
+    case "year":
+      return calendarDate(date.year + amount);
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { applyInheritance } from "./clusters";
+import type { PageDateOfService } from "@/lib/types/chronology";
+
+/** Pages numbered from 1; a date gives the page its own date of service */
+function pages(...dates: (string | null)[]): PageDateOfService[] {
+  return dates.map((date, i) => ({
+    pageNumber: i + 1,
+    dateOfService: date,
+    dateSource: date ? "heuristic" : "none",
+    ...(date && { dateConfidence: 1 }),
+  }));
+}
+
+const dates = (result: PageDateOfService[]) => result.map((p) => p.dateOfService);
+
+describe("applyInheritance", () => {
+  it("carries a date forward to the undated pages after it", () => {
+    const result = applyInheritance(pages("2024-01-05", null, null));
+    expect(dates(result)).toEqual(["2024-01-05", "2024-01-05", "2024-01-05"]);
+    expect(result[2]).toMatchObject({ dateSource: "inherited", inheritedFrom: 1 });
+  });
+
+  it("doesn't carry a date into the next record", () => {
+    const result = applyInheritance(pages("2024-01-05", null, null), {
+      segments: [{ startPage: 1 }, { startPage: 3 }],
+    });
+    expect(dates(result)).toEqual(["2024-01-05", "2024-01-05", null]);
+    expect(result[2].dateSource).toBe("none");
+  });
+});
+
+describe("inheritance strategies", () => {
+  it("takes the next dated page going backward", () => {
+    const result = applyInheritance(pages(null, "2024-01-05", null), { strategy: "backward" });
+    expect(dates(result)).toEqual(["2024-01-05", "2024-01-05", null]);
+    expect(result[0].inheritanceStrategy).toBe("backward");
+  });
+
+  it("takes the closer page, the earlier on a tie, going nearest", () => {
+    const result = applyInheritance(pages("2024-01-01", null, null, "2024-01-04", null), {
+      strategy: "nearest",
+    });
+    expect(dates(result)).toEqual([
+      "2024-01-01",
+      "2024-01-01",
+      "2024-01-04",
+      "2024-01-04",
+      "2024-01-04",
+    ]);
+  });
+
+  it("leaves undated pages alone with none", () => {
+    const result = applyInheritance(pages("2024-01-05", null), { strategy: "none" });
+    expect(dates(result)).toEqual(["2024-01-05", null]);
+  });
+
+  it("stops at the distance limit", () => {
+    const result = applyInheritance(pages("2024-01-05", null, null), { maxDistance: 1 });
+    expect(dates(result)).toEqual(["2024-01-05", "2024-01-05", null]);
+  });
+
+  it("loses confidence for each page travelled", () => {
+    const result = applyInheritance(pages("2024-01-05", null, null), { decay: 0.5 });
+    expect(result.map((p) => p.dateConfidence)).toEqual([1, 0.5, 0.25]);
+  });
+});
@@ -0,0 +1,138 @@
+import { compareIsoDates } from "./calendarDate";
+import type {
+  DocumentSegment,
+  InheritanceStrategy,
+  PageCluster,
+  PageDateOfService,
+} from "@/lib/types/chronology";
+
+export const INHERITANCE_STRATEGIES: InheritanceStrategy[] = [
+  "forward",
+  "backward",
+  "nearest",
+  "none",
+];
+
+/** Fraction of an inherited date's confidence kept for each page it travels */
+export const DEFAULT_INHERITANCE_DECAY = 0.9;
+
+export interface InheritanceOptions {
+  strategy?: InheritanceStrategy;
+  /** Most pages a date may travel; unlimited when absent */
+  maxDistance?: number | null;
+  /** Confidence kept per page travelled (0-1) */
+  decay?: number;
+  /** Records the pages were split into; dates never cross into another */
+  segments?: Pick<DocumentSegment, "startPage">[];
+}
+
+/**
+ * Lets pages without a date of service inherit one from a page that has
+ * its own, per the strategy (forward by default): the nearest dated page
+ * before, after, or on either side (the earlier on a tie). With segments, a
+ * page only inherits from a page of the same record. Inherited confidence
+ * is the source's, times `decay` for each page in between. Pages must be in
+ * page order.
+ */
+export function applyInheritance<T extends PageDateOfService>(
+  pages: T[],
+  options: InheritanceOptions = {}
+): T[] {
+  const {
+    strategy = "forward",
+    maxDistance,
+    decay = DEFAULT_INHERITANCE_DECAY,
+    segments = [],
+  } = options;
+  if (strategy === "none") return pages.map((page) => ({ ...page }));
+
+  const segmentStarts = new Set(segments.map((s) => s.startPage));
+  const isDated = (page: T) => !!page.dateOfService && page.dateSource !== "none";
+
+  // Nearest dated page before and after each page, within its record
+  const before: (T | null)[] = [];
+  let lastDatedPage: T | null = null;
+  for (const page of pages) {
+    // A new record doesn't carry the previous record's date
+    if (segmentStarts.has(page.pageNumber)) lastDatedPage = null;
+    before.push(lastDatedPage);
+    if (isDated(page)) lastDatedPage = page;
+  }
+  const after: (T | null)[] = new Array(pages.length).fill(null);
+  let nextDatedPage: T | null = null;
+  for (let i = pages.length - 1; i >= 0; i--) {
+    after[i] = nextDatedPage;
+    if (isDated(pages[i])) nextDatedPage = pages[i];
+    if (segmentStarts.has(pages[i].pageNumber)) nextDatedPage = null;
+  }
+
+  return pages.map((page, i) => {
+    // Pages with their own date keep it
+    if (isDated(page)) return { ...page };
+
+    const distance = (source: T | null) =>
+      source ? Math.abs(source.pageNumber - page.pageNumber) : Infinity;
+    let source: T | null = null;
+    if (strategy === "forward") source = before[i];
+    else if (strategy === "backward") source = after[i];
+    else source = distance(after[i]) < distance(before[i]) ? after[i] : before[i];
+
+    if (!source || (maxDistance != null && distance(source) > maxDistance)) {
+      // No date to inherit
+      return { ...page };
+    }
+
+    return {
+      ...page,
+      dateOfService: source.dateOfService,
+      dateSource: "inherited",
+      dateConfidence: (source.dateConfidence ?? 1) * decay ** distance(source),
+      inheritedFrom: source.pageNumber,
+      inheritanceStrategy: strategy,
+    };
+  });
+}
+
+/**
+ * Groups pages into clusters by date of service, in chronological order.
+ * Pages must be in page order; the first page with each date is its
+ * cluster's primary page.
+ */
+export function buildClusters(pages: PageDateOfService[]): Omit<PageCluster, "id">[] {
+  const clusterMap = new Map<
+    string,
+    { pages: number[]; primaryPage: number; documentType?: string }
+  >();
+
+  for (const page of pages) {
+    if (!page.dateOfService) continue;
+
+    const existing = clusterMap.get(page.dateOfService);
+    if (existing) {
+      existing.pages.push(page.pageNumber);
+      // Keep document type from primary page
+    } else {
+      clusterMap.set(page.dateOfService, {
+        pages: [page.pageNumber],
+        primaryPage: page.pageNumber,
+        documentType: page.documentType,
+      });
+    }
+  }
+
+  // Convert to array and sort by date
+  const clusters: Omit<PageCluster, "id">[] = [];
+  for (const [dateOfService, data] of clusterMap) {
+    clusters.push({
+      dateOfService,
+      pages: data.pages,
+      primaryPage: data.primaryPage,
+      documentType: data.documentType,
+    });
+  }
+
+  // Sort clusters chronologically
+  clusters.sort((a, b) => compareIsoDates(a.dateOfService, b.dateOfService));
+
+  return clusters;
+}
@@ -0,0 +1,30 @@
+import type { PagePosition } from "@/lib/types/chronology";
+
+/** Characters of context kept on each side of a date */
+const CONTEXT_CHARS = 50;
+
+/**
+ * Returns the trimmed text just before and after a match.
+ */
+export function surroundingText(
+  text: string,
+  offset: number,
+  length: number
+): { before: string; after: string } {
+  const beforeStart = Math.max(0, offset - CONTEXT_CHARS);
+  const afterEnd = Math.min(text.length, offset + length + CONTEXT_CHARS);
+  return {
+    before: text.slice(beforeStart, offset).trim(),
+    after: text.slice(offset + length, afterEnd).trim(),
+  };
+}
+
+/**
+ * Determines position on page based on character offset.
+ */
+export function getPosition(offset: number, textLength: number): PagePosition {
+  const ratio = offset / textLength;
+  if (ratio < 0.2) return "top";
+  if (ratio > 0.8) return "bottom";
+  return "middle";
+}
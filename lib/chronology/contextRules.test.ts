@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CONTEXT_RULES, validateContextRule } from "./contextRules";
+import type { DateContextRule } from "@/lib/types/chronology";
+
+const rule: DateContextRule = {
+  pattern: String.raw`date\s+of\s+service`,
+  window: "before",
+  windowChars: 50,
+  classification: "date_of_service",
+  confidence: 0.9,
+  priority: 100,
+};
+
+describe("validateContextRule", () => {
+  it("accepts the built-in rules", () => {
+    expect(DEFAULT_CONTEXT_RULES.map(validateContextRule).filter(Boolean)).toEqual([]);
+  });
+
+  it.each([
+    [{ pattern: "" }, "pattern must be a non-empty string"],
+    [{ pattern: "a".repeat(201) }, "pattern must be at most 200 characters"],
+    [{ pattern: "(" }, "pattern is not a valid regular expression"],
+    [{ pattern: "x?" }, "pattern must not match empty text"],
+    [{ pattern: "(a+)+$" }, "pattern may take exponential time"],
+    [{ pattern: String.raw`(\w*\s)*done` }, "pattern may take exponential time"],
+    [{ window: "inside" }, "window must be one of"],
+    [{ windowChars: 0 }, "windowChars must be a whole number"],
+    [{ windowChars: 2.5 }, "windowChars must be a whole number"],
+    [{ classification: "birthday" }, "classification must be one of"],
+    [{ confidence: 1.5 }, "confidence must be a number from 0 to 1"],
+    [{ priority: Number.NaN }, "priority must be a whole number"],
+  ])("rejects %j", (change, problem) => {
+    expect(validateContextRule({ ...rule, ...change } as Partial<DateContextRule>)).toMatch(
+      problem
+    );
+  });
+
+  it("accepts a valid rule", () => {
+    expect(validateContextRule(rule)).toBeNull();
+  });
+});
@@ -0,0 +1,292 @@
+import safeRegex from "safe-regex2";
+import type {
+  DateClassification,
+  DateContextRule,
+  RuleWindow,
+} from "@/lib/types/chronology";
+
+/** Every classification a context rule may assign */
+export const DATE_CLASSIFICATIONS: DateClassification[] = [
+  "date_of_service",
+  "dob",
+  "referenced",
+  "fax",
+  "printed",
+  "signed",
+  "revised",
+  "ordered",
+  "collected",
+  "resulted",
+  "admission",
+  "discharge",
+  "referenced_history",
+  "scheduled",
+  "unknown",
+];
+
+export const RULE_WINDOWS: RuleWindow[] = ["before", "after", "around"];
+
+/** The most characters on either side of a date a rule may search */
+export const MAX_WINDOW_CHARS = 200;
+
+/**
+ * Longest pattern a rule may have. Rules run against the text around every
+ * date, so user-supplied patterns are kept to label-sized expressions.
+ */
+export const MAX_PATTERN_CHARS = 200;
+
+// Labels end just before the date, so "\b...(?:[:\s]|$)" allows for the
+// trimmed window
+const DOS_PATTERNS = [
+  String.raw`date\s+of\s+service`,
+  String.raw`\bdos\b(?:[:\s]|$)`,
+  String.raw`visit\s+date`,
+  String.raw`service\s+date`,
+  String.raw`encounter\s+date`,
+  String.raw`procedure\s+date`,
+  String.raw`exam\s+date`,
+  String.raw`treatment\s+date`,
+];
+
+/** Label rules: the label closest to the date decides */
+const LABEL_PRIORITY = 100;
+/** Fax and transmission words anywhere around an unlabeled date */
+const FAX_PRIORITY = 50;
+/** A date of service label written after the date */
+const TRAILING_LABEL_PRIORITY = 40;
+
+function labelRules(
+  classification: DateClassification,
+  confidence: number,
+  patterns: string[]
+): DateContextRule[] {
+  return patterns.map((pattern) => ({
+    pattern,
+    window: "before",
+    windowChars: 50,
+    classification,
+    confidence,
+    priority: LABEL_PRIORITY,
+  }));
+}
+
+/**
+ * The built-in rules. Label rules are listed in priority order for labels
+ * ending at the same place, so in "DOS: 01/02/2024 Printed: 01/05/2024" the
+ * second date is the print date.
+ */
+export const DEFAULT_CONTEXT_RULES: DateContextRule[] = [
+  ...labelRules("dob", 0.95, [
+    String.raw`date\s+of\s+birth`,
+    String.raw`\bdob\b(?:[:\s]|$)`,
+    String.raw`birth\s*date`,
+    String.raw`\bborn\b(?:[:\s]|$)`,
+    String.raw`patient.*born`,
+  ]),
+  ...labelRules("date_of_service", 0.9, DOS_PATTERNS),
+  ...labelRules("admission", 0.85, [
+    String.raw`admission\s+date`,
+    String.raw`date\s+of\s+admission`,
+    String.raw`\badmit(?:ted)?\b`,
+  ]),
+  ...labelRules("discharge", 0.85, [
+    String.raw`discharge\s+date`,
+    String.raw`date\s+of\s+discharge`,
+    String.raw`\bdischarged\b`,
+  ]),
+  ...labelRules("collected", 0.85, [
+    String.raw`\bcollect(?:ed|ion)\b`,
+    String.raw`specimen\s+date`,
+    String.raw`\bdrawn\b`,
+  ]),
+  ...labelRules("resulted", 0.8, [
+    String.raw`\bresult(?:ed|s)?\b`,
+    String.raw`\breported\b`,
+    String.raw`\bfinali[sz]ed\b`,
+    String.raw`\bverified\b`,
+  ]),
+  ...labelRules("ordered", 0.8, [String.raw`\border(?:ed)?\b`, String.raw`\brequested\b`]),
+  ...labelRules("printed", 0.85, [
+    String.raw`\bprint(?:ed)?\b`,
+    String.raw`\bgenerated\b`,
+    String.raw`\brun\s+date\b`,
+  ]),
+  ...labelRules("signed", 0.8, [
+    String.raw`\b(?:e-?signed|electronically\s+signed|signed)\b`,
+    String.raw`\bauthenticated\b`,
+    String.raw`\battested\b`,
+    String.raw`\bcosigned\b`,
+  ]),
+  ...labelRules("revised", 0.8, [
+    String.raw`last\s+updated`,
+    String.raw`\brevised\b`,
+    String.raw`\brevision\b`,
+    String.raw`\bamended\b`,
+    String.raw`\bupdated\b`,
+    String.raw`effective\s+date`,
+  ]),
+  ...labelRules("scheduled", 0.7, [
+    String.raw`\bfollow[-\s]?up\b`,
+    String.raw`\bf\/u\b`,
+    String.raw`\bscheduled\b`,
+    String.raw`\bnext\s+(?:appointment|appt|visit)\b`,
+    String.raw`\breturn\s+(?:to\s+clinic|visit)\b`,
+    String.raw`\brtc\b`,
+    String.raw`\bdue\s+(?:on|by|date)\b`,
+  ]),
+  ...labelRules("referenced_history", 0.6, [
+    String.raw`\bhistory\s+of\b`,
+    String.raw`\b(?:hx|h\/o)\b`,
+    String.raw`\bsince\b`,
+    String.raw`\bdiagnosed\b`,
+    String.raw`\bprevious(?:ly)?\b`,
+    String.raw`\bprior\b`,
+  ]),
+  ...[String.raw`\bfax\b`, "transmitted", String.raw`\bsent\b[:\s]`, "received"].map(
+    (pattern): DateContextRule => ({
+      pattern,
+      window: "around",
+      windowChars: 50,
+      classification: "fax",
+      confidence: 0.8,
+      priority: FAX_PRIORITY,
+    })
+  ),
+  ...DOS_PATTERNS.map(
+    (pattern): DateContextRule => ({
+      pattern,
+      window: "after",
+      windowChars: 50,
+      classification: "date_of_service",
+      confidence: 0.7,
+      priority: TRAILING_LABEL_PRIORITY,
+    })
+  ),
+];
+
+/**
+ * Checks a rule from a config file, the database or a request body. Returns
+ * a message describing the first problem, or null if the rule is usable.
+ */
+export function validateContextRule(rule: Partial<DateContextRule>): string | null {
+  if (typeof rule.pattern !== "string" || rule.pattern === "") {
+    return "pattern must be a non-empty string";
+  }
+  if (rule.pattern.length > MAX_PATTERN_CHARS) {
+    return `pattern must be at most ${MAX_PATTERN_CHARS} characters`;
+  }
+  try {
+    new RegExp(rule.pattern, "gi");
+  } catch (error) {
+    return `pattern is not a valid regular expression: ${(error as Error).message}`;
+  }
+  if (new RegExp(rule.pattern, "i").test("")) {
+    return "pattern must not match empty text";
+  }
+  if (!safeRegex(rule.pattern)) {
+    return 'pattern may take exponential time to match (nested repetition such as "(a+)+")';
+  }
+  if (!RULE_WINDOWS.includes(rule.window as RuleWindow)) {
+    return `window must be one of: ${RULE_WINDOWS.join(", ")}`;
+  }
+  if (
+    !Number.isInteger(rule.windowChars) ||
+    rule.windowChars! < 1 ||
+    rule.windowChars! > MAX_WINDOW_CHARS
+  ) {
+    return `windowChars must be a whole number from 1 to ${MAX_WINDOW_CHARS}`;
+  }
+  if (!DATE_CLASSIFICATIONS.includes(rule.classification as DateClassification)) {
+    return `classification must be one of: ${DATE_CLASSIFICATIONS.join(", ")}`;
+  }
+  if (typeof rule.confidence !== "number" || !(rule.confidence >= 0 && rule.confidence <= 1)) {
+    return "confidence must be a number from 0 to 1";
+  }
+  if (!Number.isInteger(rule.priority)) {
+    return "priority must be a whole number";
+  }
+  return null;
+}
+
+/** The text around a date that rules search, up to MAX_WINDOW_CHARS each side */
+export interface ContextWindows {
+  /** Text before the date back to the end of the previous date */
+  label: string;
+  /** Text before the date, regardless of other dates */
+  before: string;
+  /** Text after the date */
+  after: string;
+}
+
+const compiledPatterns = new Map<string, RegExp>();
+
+function compile(pattern: string): RegExp {
+  let re = compiledPatterns.get(pattern);
+  if (!re) {
+    re = new RegExp(pattern, "gi");
+    compiledPatterns.set(pattern, re);
+  }
+  return re;
+}
+
+/**
+ * How far a rule's match is from the date, in characters, or -1 if the rule
+ * doesn't match. Before the date that is from the end of the last match;
+ * after it, from the start of the first.
+ */
+function matchDistance(rule: DateContextRule, windows: ContextWindows): number {
+  const re = compile(rule.pattern);
+  const label = windows.label.slice(-rule.windowChars).trim();
+  const after = windows.after.slice(0, rule.windowChars).trim();
+
+  if (rule.window === "after") {
+    re.lastIndex = 0;
+    const match = re.exec(after);
+    return match ? match.index : -1;
+  }
+
+  const text =
+    rule.window === "before"
+      ? label
+      : windows.before.slice(-rule.windowChars).trim() + " " + after;
+
+  let end = -1;
+  let match: RegExpExecArray | null;
+  re.lastIndex = 0;
+  while ((match = re.exec(text)) !== null) {
+    end = match.index + match[0].length;
+    if (match[0] === "") re.lastIndex++;
+  }
+  if (end < 0) return -1;
+  // Anywhere around the date counts the same
+  return rule.window === "before" ? text.length - end : 0;
+}
+
+/**
+ * Classifies a date by the rules matching the text around it. Rules of the
+ * highest priority with any match decide; among those the match nearest the
+ * date wins, then the rule listed first.
+ */
+export function classifyByRules(
+  windows: ContextWindows,
+  rules: DateContextRule[] = DEFAULT_CONTEXT_RULES
+): { classification: DateClassification; confidence: number } {
+  let best: { rule: DateContextRule; distance: number } | null = null;
+
+  for (const rule of rules) {
+    if (best && rule.priority < best.rule.priority) continue;
+    const distance = matchDistance(rule, windows);
+    if (distance < 0) continue;
+    if (
+      !best ||
+      rule.priority > best.rule.priority ||
+      distance < best.distance
+    ) {
+      best = { rule, distance };
+    }
+  }
+
+  return best
+    ? { classification: best.rule.classification, confidence: best.rule.confidence }
+    : { classification: "unknown", confidence: 0.0 };
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import { getDatesWithContext, selectDateOfService } from "./findDates";
+
+/** The only date found in `text` */
+function onlyDate(text: string, options?: Parameters<typeof getDatesWithContext>[1]) {
+  const dates = getDatesWithContext(text, options);
+  expect(dates).toHaveLength(1);
+  return dates[0];
+}
+
+describe("date classification", () => {
+  it.each([
+    ["Date of Service: 03/04/2023", "date_of_service", 0.9],
+    ["DOB: 05/06/1970", "dob", 0.95],
+    ["Printed: 03/04/2023", "printed", 0.85],
+    ["Report generated 03/04/2023", "printed", 0.85],
+    ["Electronically signed 03/04/2023", "signed", 0.8],
+    ["Last updated 03/04/2023", "revised", 0.8],
+    ["Effective date 03/04/2023", "revised", 0.8],
+    ["Ordered: 03/04/2023", "ordered", 0.8],
+    ["Collected: 03/04/2023", "collected", 0.85],
+    ["Resulted: 03/04/2023", "resulted", 0.8],
+    ["Admission date: 03/04/2023", "admission", 0.85],
+    ["Discharged 03/04/2023", "discharge", 0.85],
+    ["History of MI 03/04/2019", "referenced_history", 0.6],
+    ["Follow-up 04/01/2023", "scheduled", 0.7],
+    ["Fax received 03/04/2023", "fax", 0.8],
+  ])("classifies %j as %s", (text, classification, confidence) => {
+    const date = onlyDate(text);
+    expect(date.classification).toBe(classification);
+    expect(date.confidence).toBe(confidence);
+  });
+
+  it("gives each date the label closest to it", () => {
+    const dates = getDatesWithContext(
+      "Ordered: 03/04/2023 Collected: 03/05/2023 Resulted: 03/06/2023"
+    );
+    expect(dates.map((d) => d.classification)).toEqual([
+      "ordered",
+      "collected",
+      "resulted",
+    ]);
+  });
+
+  it("doesn't take a print date as the date of service", () => {
+    const dates = getDatesWithContext("Printed: 03/09/2023\nSeen in clinic 03/04/2023");
+    expect(selectDateOfService(dates)?.date).toBe("2023-03-04");
+  });
+});
+
+describe("date ranges", () => {
+  it("joins a dashed range into one date", () => {
+    const date = onlyDate("Admitted 3/2/2023 - 3/9/2023");
+    expect(date.iso).toBe("2023-03-02");
+    expect(date.end).toEqual({ iso: "2023-03-09", precision: "day" });
+    expect(date.raw).toBe("3/2/2023 - 3/9/2023");
+  });
+
+  it("joins a range written with words", () => {
+    const date = onlyDate("Physical therapy from 01/05/22 through 02/14/22");
+    expect(date.iso).toBe("2022-01-05");
+    expect(date.end?.iso).toBe("2022-02-14");
+  });
+
+  it("keeps dates apart when the second is earlier", () => {
+    expect(getDatesWithContext("3/9/2023 - 3/2/2023")).toHaveLength(2);
+  });
+});
+
+describe("OCR repair", () => {
+  it("reads digits OCR mistook for letters, at 0.8 of the confidence", () => {
+    const date = onlyDate("DOS: O3/O4/2O23");
+    expect(date.iso).toBe("2023-03-04");
+    expect(date.ocrRepaired).toBe("03/04/2023");
+    expect(date.classification).toBe("date_of_service");
+    expect(date.confidence).toBeCloseTo(0.9 * 0.8);
+  });
+
+  it("leaves cleanly read dates at full confidence", () => {
+    const date = onlyDate("DOS: 03/04/2023");
+    expect(date.ocrRepaired).toBeUndefined();
+    expect(date.confidence).toBe(0.9);
+  });
+
+  it("joins a year split by a stray space", () => {
+    const date = onlyDate("Seen 01/15/20 23");
+    expect(date.iso).toBe("2023-01-15");
+    expect(date.ocrRepaired).toBe("01/15/2023");
+  });
+
+  it.each([
+    ["Bed 3 1/5/2023", "2023-05-01"],
+    ["Page 1 3/4/2022", "2022-04-03"],
+    ["Bed 3 1/5/2O23", "2023-05-01"],
+    ["Room 1 5 March 2023", "2023-03-05"],
+  ])("doesn't join the number before %j to its day", (text, iso) => {
+    const date = onlyDate(text, { order: "dmy" });
+    expect(date.raw).toBe(text.split(" ").slice(2).join(" "));
+    expect(date.iso).toBe(iso);
+  });
+});
+
+describe("month names", () => {
+  it.each([
+    ["es", "Fecha de servicio: 15 de marzo de 2023"],
+    ["fr", "Date de service : 15 mars 2023"],
+    ["de", "Behandlungsdatum: 15. März 2023"],
+  ] as const)("reads %s month names", (language, text) => {
+    const date = onlyDate(text, { language });
+    expect(date.iso).toBe("2023-03-15");
+    expect(date.precision).toBe("day");
+  });
+});
+
+describe("ambiguous numeric dates", () => {
+  it("keeps both readings and chooses MDY by default", () => {
+    const date = onlyDate("Visit 03/04/2023");
+    expect(date.iso).toBe("2023-03-04");
+    expect(date.ambiguous).toEqual({ mdy: "2023-03-04", dmy: "2023-04-03" });
+  });
+
+  it("chooses the DMY reading for day-first documents", () => {
+    const date = onlyDate("Visit 03/04/2023", { order: "dmy" });
+    expect(date.iso).toBe("2023-04-03");
+    expect(date.ambiguous).toEqual({ mdy: "2023-03-04", dmy: "2023-04-03" });
+  });
+
+  it("isn't ambiguous when only one reading is a real date", () => {
+    const date = onlyDate("Visit 13/04/2023");
+    expect(date.iso).toBe("2023-04-13");
+    expect(date.ambiguous).toBeUndefined();
+  });
+});
+
+describe("precision", () => {
+  it("reads a qualified year as approximate", () => {
+    const date = onlyDate("Knee surgery circa 2019");
+    expect(date.iso).toBe("2019");
+    expect(date.precision).toBe("approximate");
+  });
+
+  it.each(["Seen in March 2021", "Seen 03/2021"])("reads %j to the month", (text) => {
+    const date = onlyDate(text);
+    expect(date.iso).toBe("2021-03");
+    expect(date.precision).toBe("month");
+  });
+
+  it("marks a qualified month as approximate", () => {
+    const date = onlyDate("Symptoms began approximately Jan 2024");
+    expect(date.iso).toBe("2024-01");
+    expect(date.precision).toBe("approximate");
+  });
+});
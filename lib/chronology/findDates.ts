@@ -1,15 +1,30 @@
 import XRegExp from "xregexp";
+import {
+  calendarDate,
+  compareCalendarDates,
+  parseIsoDate,
+  toIsoDate,
+} from "./calendarDate";
+import { surroundingText } from "./context";
+import { placeMatch } from "./layout";
+import { resolveRelativeDates } from "./relativeDates";
+import { TIME_AFTER_DATE, timeAfterDate, timeBeforeDate } from "./timeOfDay";
+import { MAX_WINDOW_CHARS, classifyByRules } from "./contextRules";
+import { LANGUAGE_PACKS, getLanguagePack } from "./languages";
+import type { LanguagePack } from "./languages";
 import type {
+  CalendarDate,
+  DateContextRule,
   ExtractedDate,
+  PageLayout,
   DateClassification,
-  PagePosition,
+  DateOrder,
+  DateLanguage,
+  DatePolicy,
 } from "@/lib/types/chronology";
 
-/**
- * Returns true if `text` contains something that looks like a date.
- * Uses XRegExp to support multiple common numeric and month-name formats.
- */
-const MONTH = String.raw`(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|jun(?:e)?|jul(?:y)?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)`;
+const DAY = String.raw`(?:0?[1-9]|[12]\d|3[01])`;
+const YEAR = String.raw`(?:(?:19|20)?\d{2})`;
 
 // 2024-11-22 / 2024/11/22 / 2024.11.22
 const isoYmd = XRegExp(
@@ -31,288 +46,575 @@ const compactYmd = XRegExp(
   String.raw`\b(?:19|20)\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])\b`
 );
 
-// Jan 5, 2024 / January 5 24 / jan 5th 2024
-const monthDayYear = XRegExp(
-  String.raw`\b${MONTH}\s+(?:0?[1-9]|[12]\d|3[01])(?:st|nd|rd|th)?(?:,)?\s+(?:(?:19|20)?\d{2})\b`,
-  "i"
-);
-
-// 5 Jan 2024 / 5th of January, 24
-const dayMonthYear = XRegExp(
-  String.raw`\b(?:0?[1-9]|[12]\d|3[01])(?:st|nd|rd|th)?\s+(?:of\s+)?${MONTH}(?:,)?\s+(?:(?:19|20)?\d{2})\b`,
-  "i"
-);
-
-// Jan 2024 / September 1999
-const monthYear = XRegExp(String.raw`\b${MONTH}\s+(?:19|20)\d{2}\b`, "i");
-
 // 11/2024 or 11-2024 (numeric month/year)
 const numericMonthYear = XRegExp(
   String.raw`\b(?:0?[1-9]|1[0-2])[-/](?:19|20)\d{2}\b`
 );
 
-const DATE_RE = XRegExp.union(
-  [
-    isoYmd,
-    dmy,
-    mdy,
-    compactYmd,
-    monthDayYear,
-    dayMonthYear,
-    monthYear,
-    numericMonthYear,
-  ],
+// Words that mark a date as only roughly stated
+const APPROXIMATE = String.raw`(?:circa|ca\.|c\.|approx(?:imately|\.)?|around|about|early|mid-?|late)`;
+
+// circa 2019 / early 2020 / mid-2018 (a bare year is too noisy without a qualifier)
+const approximateYear = XRegExp(
+  String.raw`\b${APPROXIMATE}\s*(?:19|20)\d{2}\b`,
   "i"
 );
 
-export function hasDate(text: string): boolean {
+// Qualifier immediately before a matched date: "approximately Jan 2024"
+const APPROXIMATE_BEFORE = new RegExp(String.raw`\b${APPROXIMATE}\s*$`, "i");
+
+// "between X and Y" is a range only with the leading "between"
+const BETWEEN_BEFORE = /\bbetween\s*$/i;
+
+// Characters OCR commonly reads in place of digits
+const OCR_DIGITS: Record<string, string> = {
+  O: "0", o: "0", D: "0",
+  I: "1", l: "1", "|": "1",
+  S: "5", s: "5",
+  Z: "2", z: "2",
+  B: "8",
+};
+
+// A number as OCR may render it: "2O23", "l5", "20 23" (up to 4 digits, single stray spaces)
+const OCR_NUMBER = String.raw`[\dOoDIl|SsZzB](?: ?[\dOoDIl|SsZzB]){0,3}`;
+
+// The number a span starts with, which takes no stray spaces: a space there
+// would join an unrelated number to the day ("Bed 3 1/5/2023" is not 31/5)
+const OCR_LEADING_NUMBER = String.raw`[\dOoDIl|SsZzB]{1,4}`;
+
+// Repaired dates are less certain than cleanly read ones
+const OCR_REPAIR_CONFIDENCE = 0.8;
+
+// Numeric d/m/y or m/d/y date, split into its parts
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/;
+
+/** Regex alternation of words, longest first so "janvier" wins over "janv" */
+function alternation(words: string[]): string {
+  const escaped = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return escaped.length > 0 ? `(?:${escaped.join("|")})` : "(?!)";
+}
+
+/** The patterns a language's dates are matched with */
+interface DatePatterns {
+  pack: LanguagePack;
+  dateRe: RegExp;
+  /** Date-like spans that may hold OCR errors */
+  ocrDateSpan: RegExp;
+  /** Text joining two dates into a range */
+  rangeConnector: RegExp;
+}
+
+const patternCache = new Map<DateLanguage, DatePatterns>();
+
+/**
+ * Builds (once per language) the date patterns for a language pack: its month
+ * names, ordinal suffixes and connector words on top of the numeric formats.
+ */
+function datePatterns(language: DateLanguage = "en"): DatePatterns {
+  const cached = patternCache.get(language);
+  if (cached) return cached;
+
+  const pack = getLanguagePack(language);
+  // An abbreviation may be written with a period: "févr.", "Jan."
+  const month = `${alternation(Object.keys(pack.months))}\\.?`;
+  const ordinal = `${alternation(pack.ordinals)}?`;
+  const connector = `(?:${alternation(pack.connectors)}\\s+)?`;
+
+  // Jan 5, 2024 / January 5 24 / jan 5th 2024
+  const monthDayYear = XRegExp(
+    String.raw`\b${month}\s+${DAY}${ordinal},?\s+${connector}${YEAR}\b`,
+    "i"
+  );
+
+  // 5 Jan 2024 / 5th of January, 24 / 15 de enero de 2023 / 1er févr. 2022 / 15. März 2023
+  const dayMonthYear = XRegExp(
+    String.raw`\b${DAY}${ordinal}\s+${connector}${month},?\s+${connector}${YEAR}\b`,
+    "i"
+  );
+
+  // Jan 2024 / September 1999 / enero de 2023
+  const monthYear = XRegExp(
+    String.raw`\b${month}\s+${connector}(?:19|20)\d{2}\b`,
+    "i"
+  );
+
+  const dateRe = XRegExp.union(
+    [
+      isoYmd,
+      dmy,
+      mdy,
+      compactYmd,
+      monthDayYear,
+      dayMonthYear,
+      monthYear,
+      numericMonthYear,
+      approximateYear,
+    ],
+    "i"
+  );
+
+  // "O1/15/2O23", "01/15/20 23", "Jan l5, 2024", "5 Jan 2O24"
+  const ocrDateSpan = new RegExp(
+    [
+      String.raw`${OCR_LEADING_NUMBER}[-/.]${OCR_NUMBER}[-/.]${OCR_NUMBER}`,
+      String.raw`${month}\s+${OCR_NUMBER}${ordinal},?\s+${connector}${OCR_NUMBER}`,
+      String.raw`${OCR_LEADING_NUMBER}${ordinal}\s+${connector}${month},?\s+${connector}${OCR_NUMBER}`,
+    ]
+      .map((pattern) => String.raw`(?<![\w|])${pattern}(?![\w|])`)
+      .join("|"),
+    "gi"
+  );
+
+  // "–", "to", "through", "al", "bis", "– Discharged"
+  const rangeConnector = new RegExp(
+    String.raw`^\s*(?:(?:-|–|—|${alternation(pack.rangeConnectors)})\s*)?(?:(?:discharged?|discharge\s+date|end\s+date|stopped|ended)\s*(?:on\s*)?:?\s*)?$`,
+    "i"
+  );
+
+  const patterns = { pack, dateRe, ocrDateSpan, rangeConnector };
+  patternCache.set(language, patterns);
+  return patterns;
+}
+
+export interface DateParseOptions {
+  /** How to read numeric dates where both parts could be the month (default "mdy") */
+  order?: DateOrder;
+  /** The page's date of service (ISO), when known, to count relative dates from */
+  anchor?: string;
+  /** Language whose month names and date words to read, besides English (default "en") */
+  language?: DateLanguage;
+  /** Rules that classify dates by the words around them (default DEFAULT_CONTEXT_RULES) */
+  rules?: DateContextRule[];
+  /** Where the page's words are drawn, to place dates by their bounding boxes */
+  layout?: PageLayout;
+}
+
+/**
+ * Returns true if `text` contains something that looks like a date.
+ * Uses XRegExp to support multiple common numeric and month-name formats.
+ */
+export function hasDate(text: string, options: DateParseOptions = {}): boolean {
   if (!text) return false;
-  return XRegExp.test(text, DATE_RE);
+  return XRegExp.test(text, datePatterns(options.language).dateRe);
 }
 
 /**
  * Extracts all date strings from text and returns them as ISO formatted strings.
  * Returns an empty array if no dates are found or if parsing fails.
  */
-export function getDates(text: string): string[] {
+export function getDates(text: string, options: DateParseOptions = {}): string[] {
   if (!text) return [];
   
-  const matches = XRegExp.match(text, DATE_RE, "all");
+  const matches = XRegExp.match(text, datePatterns(options.language).dateRe, "all");
   if (!matches) return [];
 
   const dates: string[] = [];
   
   for (const match of matches) {
     const dateStr = typeof match === "string" ? match : match[0];
-    const parsed = parseDate(dateStr);
+    const parsed = parseDate(dateStr, options.order, options.language);
     if (parsed) {
-      dates.push(parsed.toISOString().split('T')[0]);
+      dates.push(toIsoDate(parsed));
     }
   }
   
   return dates;
 }
 
-function parseDate(dateStr: string): Date | null {
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
+}
+
+/**
+ * Reads a date written with a month name in a language pack's words - "Jan
+ * 5, 2024", "5th of January 24", "15 de enero de 2023", "Jan 2024" - or
+ * returns null if it isn't one.
+ */
+function parseTextDate(normalized: string, pack: LanguagePack): CalendarDate | null {
+  const numberToken = new RegExp(`^(\\d{1,4})${alternation(pack.ordinals)}?$`);
+  const parts: { month?: number; number?: string }[] = [];
+
+  for (const token of normalized.split(/[\s,]+/)) {
+    if (!token || pack.connectors.includes(token)) continue;
+    const number = numberToken.exec(token);
+    const month = pack.months[token.replace(/\.$/, "")];
+    if (number) parts.push({ number: number[1] });
+    else if (month !== undefined) parts.push({ month });
+    else return null;
+  }
+
+  const [a, b, c] = parts;
+  const isDay = (part?: { number?: string }) => !!part?.number && part.number.length <= 2;
+  const isYear = (part?: { number?: string }) =>
+    !!part?.number && (part.number.length === 2 || part.number.length === 4);
+
+  // Month Day Year: Jan 5, 2024
+  if (parts.length === 3 && a.month && isDay(b) && isYear(c)) {
+    return calendarDate(fullYear(c.number!), a.month, parseInt(b.number!));
+  }
+
+  // Day Month Year: 5 Jan 2024
+  if (parts.length === 3 && isDay(a) && b.month && isYear(c)) {
+    return calendarDate(fullYear(c.number!), b.month, parseInt(a.number!));
+  }
+
+  // Month Year: Jan 2024 (the day is unknown, not the 1st)
+  if (parts.length === 2 && a.month && b.number?.length === 4) {
+    return calendarDate(parseInt(b.number), a.month);
+  }
+
+  return null;
+}
+
+/**
+ * Parses a matched date string into a calendar date. Impossible dates
+ * (02/31/2024) are rejected rather than rolled over. Month names are read
+ * in `language` as well as English.
+ */
+export function parseDate(
+  dateStr: string,
+  order: DateOrder = "mdy",
+  language: DateLanguage = "en"
+): CalendarDate | null {
   const normalized = dateStr.trim().toLowerCase();
-  
-  // Try to parse with common formats
-  const formats = [
-    // ISO formats: 2024-11-22
-    /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/,
-    // DMY: 22/11/2024
-    /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/,
-    // Compact: 20241122
-    /^(\d{4})(\d{2})(\d{2})$/,
-  ];
-  
-  // ISO format
-  const isoMatch = formats[0].exec(dateStr);
+
+  // ISO format: 2024-11-22
+  const isoMatch = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(normalized);
   if (isoMatch) {
     const [, year, month, day] = isoMatch;
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    if (!isNaN(date.getTime())) return date;
+    return calendarDate(parseInt(year), parseInt(month), parseInt(day));
   }
-  
-  // Compact format
-  const compactMatch = formats[2].exec(dateStr);
+
+  // Compact format: 20241122
+  const compactMatch = /^(\d{4})(\d{2})(\d{2})$/.exec(normalized);
   if (compactMatch) {
     const [, year, month, day] = compactMatch;
-    const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-    if (!isNaN(date.getTime())) return date;
-  }
-  
-  // DMY/MDY format - ambiguous, try MDY first (US format)
-  const dmyMatch = formats[1].exec(dateStr);
-  if (dmyMatch) {
-    let [, p1, p2, p3] = dmyMatch;
-    const year = p3.length === 2 ? 2000 + parseInt(p3) : parseInt(p3);
-    
-    // Try MDY
-    let date = new Date(year, parseInt(p1) - 1, parseInt(p2));
-    if (!isNaN(date.getTime()) && parseInt(p1) <= 12) return date;
-    
-    // Try DMY
-    date = new Date(year, parseInt(p2) - 1, parseInt(p1));
-    if (!isNaN(date.getTime())) return date;
-  }
-  
-  // Month name formats
-  const monthNames: Record<string, number> = {
-    jan: 0, january: 0,
-    feb: 1, february: 1,
-    mar: 2, march: 2,
-    apr: 3, april: 3,
-    may: 4,
-    jun: 5, june: 5,
-    jul: 6, july: 6,
-    aug: 7, august: 7,
-    sep: 8, sept: 8, september: 8,
-    oct: 9, october: 9,
-    nov: 10, november: 10,
-    dec: 11, december: 11,
-  };
-  
-  // Month Day Year: Jan 5, 2024
-  const mdyTextMatch = /^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?\s*,?\s*(\d{2,4})$/i.exec(normalized);
-  if (mdyTextMatch) {
-    const [, month, day, year] = mdyTextMatch;
-    const monthNum = monthNames[month];
-    if (monthNum !== undefined) {
-      const fullYear = year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
-      const date = new Date(fullYear, monthNum, parseInt(day));
-      if (!isNaN(date.getTime())) return date;
-    }
+    return calendarDate(parseInt(year), parseInt(month), parseInt(day));
   }
-  
-  // Day Month Year: 5 Jan 2024
-  const dmyTextMatch = /^(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]+)\s*,?\s*(\d{2,4})$/i.exec(normalized);
-  if (dmyTextMatch) {
-    const [, day, month, year] = dmyTextMatch;
-    const monthNum = monthNames[month];
-    if (monthNum !== undefined) {
-      const fullYear = year.length === 2 ? 2000 + parseInt(year) : parseInt(year);
-      const date = new Date(fullYear, monthNum, parseInt(day));
-      if (!isNaN(date.getTime())) return date;
-    }
-  }
-  
-  // Month Year: Jan 2024
-  const myMatch = /^([a-z]+)\s+(\d{4})$/i.exec(normalized);
-  if (myMatch) {
-    const [, month, year] = myMatch;
-    const monthNum = monthNames[month];
-    if (monthNum !== undefined) {
-      const date = new Date(parseInt(year), monthNum, 1);
-      if (!isNaN(date.getTime())) return date;
-    }
+
+  // DMY/MDY format - a part above 12 settles it, otherwise follow the date order
+  const numericMatch = NUMERIC_DATE.exec(normalized);
+  if (numericMatch) {
+    const [, p1, p2, p3] = numericMatch;
+    const year = fullYear(p3);
+    const first = parseInt(p1);
+    const second = parseInt(p2);
+    const readAsDmy = first > 12 || (order === "dmy" && second <= 12);
+
+    return readAsDmy
+      ? calendarDate(year, second, first)
+      : calendarDate(year, first, second);
   }
-  
+
+  // Month names: Jan 5, 2024 / 5 Jan 2024 / Jan 2024
+  const textDate = parseTextDate(normalized, datePatterns(language).pack);
+  if (textDate) return textDate;
+
   // Numeric Month/Year: 11/2024
-  const numMyMatch = /^(\d{1,2})[-/](\d{4})$/.exec(dateStr);
+  const numMyMatch = /^(\d{1,2})[-/](\d{4})$/.exec(normalized);
   if (numMyMatch) {
     const [, month, year] = numMyMatch;
-    const date = new Date(parseInt(year), parseInt(month) - 1, 1);
-    if (!isNaN(date.getTime())) return date;
+    return calendarDate(parseInt(year), parseInt(month));
+  }
+
+  // Approximate year: circa 2019 / mid-2018
+  const approxYearMatch = new RegExp(String.raw`^${APPROXIMATE}\s*(\d{4})$`, "i").exec(normalized);
+  if (approxYearMatch) {
+    return calendarDate(parseInt(approxYearMatch[1]), undefined, undefined, "approximate");
   }
 
   return null;
 }
 
-// Heuristic patterns for classifying dates by context
-const DOS_PATTERNS = [
-  /date\s+of\s+service/i,
-  /\bdos\b[:\s]/i,
-  /visit\s+date/i,
-  /service\s+date/i,
-  /encounter\s+date/i,
-  /admission\s+date/i,
-  /procedure\s+date/i,
-  /exam\s+date/i,
-  /treatment\s+date/i,
+/** Classifications of dates that never stand for when care was given */
+const NON_SERVICE_CLASSIFICATIONS: DateClassification[] = [
+  "dob",
+  "fax",
+  "printed",
+  "revised",
+  "scheduled",
+  "referenced_history",
 ];
 
-const DOB_PATTERNS = [
-  /date\s+of\s+birth/i,
-  /\bdob\b[:\s]/i,
-  /birth\s*date/i,
-  /\bborn\b[:\s]/i,
-  /patient.*born/i,
-];
+/**
+ * Returns both readings of a numeric date whose first two parts could each be
+ * the month (03/04/2021), or undefined if only one reading is possible.
+ */
+function ambiguousReadings(raw: string): ExtractedDate["ambiguous"] {
+  const match = NUMERIC_DATE.exec(raw);
+  if (!match) return undefined;
+
+  const first = parseInt(match[1]);
+  const second = parseInt(match[2]);
+  if (first > 12 || second > 12 || first === second) return undefined;
 
-const FAX_PATTERNS = [/\bfax\b/i, /transmitted/i, /\bsent\b[:\s]/i, /received/i];
+  const mdy = parseDate(raw, "mdy");
+  const dmy = parseDate(raw, "dmy");
+  if (!mdy || !dmy) return undefined;
+
+  return { mdy: toIsoDate(mdy), dmy: toIsoDate(dmy) };
+}
 
 /**
- * Classifies a date based on surrounding context.
+ * Detects a document's numeric date order by voting across its unambiguous
+ * numeric dates (13/04/2021 votes DMY, 04/13/2021 votes MDY).
+ * Returns null when there are no votes or they tie.
  */
-function classifyByContext(
-  before: string,
-  after: string
-): { classification: DateClassification; confidence: number } {
-  const context = before + " " + after;
-
-  // Check for Date of Service indicators (highest priority)
-  for (const pattern of DOS_PATTERNS) {
-    if (pattern.test(before)) {
-      return { classification: "date_of_service", confidence: 0.9 };
+export function detectDateOrder(texts: string[]): DateOrder | null {
+  let mdyVotes = 0;
+  let dmyVotes = 0;
+
+  for (const text of texts) {
+    if (!text) continue;
+    const globalRe = XRegExp(datePatterns().dateRe.source, "gi");
+    let match: RegExpExecArray | null;
+    while ((match = globalRe.exec(text)) !== null) {
+      const parts = NUMERIC_DATE.exec(match[0]);
+      if (!parts) continue;
+
+      const first = parseInt(parts[1]);
+      const second = parseInt(parts[2]);
+      if (first > 12 && second <= 12) dmyVotes++;
+      else if (second > 12 && first <= 12) mdyVotes++;
     }
   }
 
-  // Check for DOB indicators
-  for (const pattern of DOB_PATTERNS) {
-    if (pattern.test(before)) {
-      return { classification: "dob", confidence: 0.95 };
-    }
-  }
+  if (mdyVotes === dmyVotes) return null;
+  return dmyVotes > mdyVotes ? "dmy" : "mdy";
+}
+
+/**
+ * Resolves a document's date policy to a concrete date order. "auto" detects
+ * the order from the document's text and falls back to the language's usual
+ * order (MDY for English).
+ */
+export function resolveDateOrder(
+  policy: DatePolicy,
+  texts: string[],
+  language: DateLanguage = "en"
+): DateOrder {
+  if (policy === "us") return "mdy";
+  if (policy === "international") return "dmy";
+  return detectDateOrder(texts) ?? LANGUAGE_PACKS[language].defaultOrder;
+}
 
-  // Check for fax/transmission indicators
-  for (const pattern of FAX_PATTERNS) {
-    if (pattern.test(context)) {
-      return { classification: "fax", confidence: 0.8 };
+/** True if `end` falls strictly after `start` */
+function isAfter(start: ExtractedDate, end: ExtractedDate): boolean {
+  const a = parseIsoDate(start.iso);
+  const b = parseIsoDate(end.iso);
+  return !!a && !!b && compareCalendarDates(a, b) < 0;
+}
+
+/**
+ * Merges consecutive dates joined by a range connector ("3/2/2023 –
+ * Discharged 3/9/2023") into a single date with an end. Pairs whose end
+ * isn't after their start are left as separate dates.
+ */
+function mergeRanges(
+  text: string,
+  dates: ExtractedDate[],
+  rangeConnector: RegExp,
+  rules?: DateContextRule[]
+): ExtractedDate[] {
+  const merged: ExtractedDate[] = [];
+
+  for (let i = 0; i < dates.length; i++) {
+    const start = dates[i];
+    const end = dates[i + 1];
+    if (!end) {
+      merged.push(start);
+      continue;
     }
-  }
 
-  // If DOS pattern appears after the date, still likely DOS
-  for (const pattern of DOS_PATTERNS) {
-    if (pattern.test(after)) {
-      return { classification: "date_of_service", confidence: 0.7 };
+    // "3/2/2023 14:30 – 3/9/2023": the start's time isn't part of the connector
+    const between = text
+      .slice(start.offset + start.raw.length, end.offset)
+      .replace(TIME_AFTER_DATE, "");
+    const joined =
+      (between.trim() !== "" && rangeConnector.test(between)) ||
+      (/^\s*and\s*$/i.test(between) &&
+        BETWEEN_BEFORE.test(text.slice(0, start.offset)));
+
+    if (!joined || !isAfter(start, end)) {
+      merged.push(start);
+      continue;
     }
+
+    const classified =
+      start.classification !== "unknown"
+        ? start
+        : classifyByRules(
+            {
+              label: start.context.before,
+              before: start.context.before,
+              after: end.context.after,
+            },
+            rules
+          );
+
+    merged.push({
+      ...start,
+      raw: text.slice(start.offset, end.offset + end.raw.length),
+      end: { iso: end.iso, precision: end.precision },
+      context: { before: start.context.before, after: end.context.after },
+      classification: classified.classification,
+      confidence: classified.confidence,
+    });
+    i++; // the end date is consumed by the range
   }
 
-  return { classification: "unknown", confidence: 0.0 };
+  return merged;
+}
+
+/** A date found in page text, with the text to parse it from */
+interface DateSpan {
+  raw: string;
+  offset: number;
+  /** `raw`, or its OCR-repaired form */
+  reading: string;
 }
 
 /**
- * Determines position on page based on character offset.
+ * Repairs OCR confusions inside a date-like span: letters read for digits
+ * (O/0, l/1, S/5) and stray spaces within numbers. Month names are left
+ * alone.
  */
-function getPosition(offset: number, textLength: number): PagePosition {
-  const ratio = offset / textLength;
-  if (ratio < 0.2) return "top";
-  if (ratio > 0.8) return "bottom";
-  return "middle";
+function repairOcrSpan(span: string): string {
+  return span.replace(
+    new RegExp(String.raw`(?<![a-z])${OCR_NUMBER}(?![a-z])`, "gi"),
+    (number) => number.replace(/ /g, "").replace(/[^\d]/g, (c) => OCR_DIGITS[c] ?? c)
+  );
+}
+
+/**
+ * Adds dates that only read as dates once OCR errors are repaired
+ * ("O1/15/2O23", "Jan l5, 2024") to the cleanly matched spans. A repaired
+ * span replaces clean matches inside it ("01/15/20 23" over "01/15/20") but
+ * never one it only partly overlaps. Repairs are confined to these spans,
+ * so the rest of the text is untouched.
+ */
+function withOcrDateSpans(
+  text: string,
+  clean: DateSpan[],
+  { dateRe, ocrDateSpan }: DatePatterns
+): DateSpan[] {
+  const repaired: DateSpan[] = [];
+  let kept = clean;
+
+  let match: RegExpExecArray | null;
+  ocrDateSpan.lastIndex = 0;
+  while ((match = ocrDateSpan.exec(text)) !== null) {
+    const raw = match[0];
+    const start = match.index;
+    const end = start + raw.length;
+    const reading = repairOcrSpan(raw);
+    if (reading === raw) continue;
+
+    // The repaired span must be exactly one date the clean patterns accept
+    const reread = XRegExp.exec(reading, dateRe);
+    if (reread?.[0] !== reading) continue;
+
+    const overlapping = kept.filter(
+      (d) => start < d.offset + d.raw.length && d.offset < end
+    );
+    if (overlapping.some((d) => d.offset < start || d.offset + d.raw.length > end)) {
+      continue;
+    }
+
+    kept = kept.filter((d) => !overlapping.includes(d));
+    repaired.push({ raw, offset: start, reading });
+  }
+
+  return [...kept, ...repaired].sort((a, b) => a.offset - b.offset);
 }
 
 /**
  * Extracts all dates from text with surrounding context and classification.
  * This is the enhanced version used for medical records processing.
+ * Numeric dates that could be read either way are flagged with both readings,
+ * date ranges are returned as one date with an `end`, and relative
+ * expressions ("POD #3", "2 weeks ago") are added as inferred dates.
  */
-export function getDatesWithContext(text: string): ExtractedDate[] {
+export function getDatesWithContext(
+  text: string,
+  options: DateParseOptions = {}
+): ExtractedDate[] {
   if (!text) return [];
 
-  const results: ExtractedDate[] = [];
-  const globalRe = XRegExp(DATE_RE.source, "gi");
+  const patterns = datePatterns(options.language);
+  const spans: DateSpan[] = [];
+  const globalRe = XRegExp(patterns.dateRe.source, "gi");
 
   let match: RegExpExecArray | null;
   while ((match = globalRe.exec(text)) !== null) {
-    const raw = match[0];
-    const offset = match.index;
+    spans.push({ raw: match[0], offset: match.index, reading: match[0] });
+  }
 
+  const results: ExtractedDate[] = [];
+  let previousEnd = 0;
+  // End of the previous date including its time, so a time isn't given to two dates
+  let previousTimeEnd = 0;
+  for (const { raw, offset, reading } of withOcrDateSpans(text, spans, patterns)) {
     // Extract context (50 chars before and after)
-    const beforeStart = Math.max(0, offset - 50);
-    const afterEnd = Math.min(text.length, offset + raw.length + 50);
-    const before = text.slice(beforeStart, offset).trim();
-    const after = text.slice(offset + raw.length, afterEnd).trim();
+    const { before, after } = surroundingText(text, offset, raw.length);
+    const end = offset + raw.length;
+    const windows = {
+      // Labels belong to the nearest date: "DOB 12/03/1980. Visit 01/02/2024"
+      label: text.slice(Math.max(previousEnd, offset - MAX_WINDOW_CHARS), offset),
+      before: text.slice(Math.max(0, offset - MAX_WINDOW_CHARS), offset),
+      after: text.slice(end, end + MAX_WINDOW_CHARS),
+    };
+    previousEnd = end;
 
     // Parse to ISO format
-    const parsed = parseDate(raw);
+    const parsed = parseDate(reading, options.order, options.language);
     if (!parsed) continue;
 
-    const iso = parsed.toISOString().split("T")[0];
-    const position = getPosition(offset, text.length);
-    const { classification, confidence } = classifyByContext(before, after);
+    const iso = toIsoDate(parsed);
+    // "approximately 03/2021" states the month, but only roughly
+    const precision = APPROXIMATE_BEFORE.test(before)
+      ? "approximate"
+      : parsed.precision;
+    const placement = placeMatch(text, offset, raw.length, options.layout);
+    const classified = classifyByRules(windows, options.rules);
+    const ocrRepaired = reading !== raw;
+
+    const ambiguous = ambiguousReadings(reading);
+    // Only a full date can carry a time of day: "03/02/2023 14:30", or
+    // failing that "at 0210 hrs on 03/02/2023"
+    const timeAfter =
+      parsed.precision === "day" ? timeAfterDate(text, offset + raw.length) : null;
+    const time =
+      timeAfter?.time ??
+      (parsed.precision === "day" ? timeBeforeDate(text, offset, previousTimeEnd) : null);
+    previousTimeEnd = end + (timeAfter?.length ?? 0);
 
     results.push({
       raw,
       iso,
+      precision,
       context: { before, after },
-      position,
+      ...placement,
       offset,
-      classification,
-      confidence,
+      classification: classified.classification,
+      confidence: ocrRepaired
+        ? classified.confidence * OCR_REPAIR_CONFIDENCE
+        : classified.confidence,
+      ...(ambiguous && { ambiguous }),
+      ...(time && { time }),
+      ...(ocrRepaired && { ocrRepaired: reading }),
     });
   }
 
-  return results;
+  const dates = mergeRanges(text, results, patterns.rangeConnector, options.rules).map(
+    // A range is placed by its whole span
+    (d) => (d.end ? { ...d, ...placeMatch(text, d.offset, d.raw.length, options.layout) } : d)
+  );
+  return [...dates, ...resolveRelativeDates(text, dates, options)].sort(
+    (a, b) => a.offset - b.offset
+  );
 }
 
 /**
@@ -322,34 +624,47 @@ export function getDatesWithContext(text: string): ExtractedDate[] {
 export function selectDateOfService(
   dates: ExtractedDate[]
 ): { date: string; confident: boolean } | null {
-  if (dates.length === 0) return null;
+  // Dates inferred from relative expressions never stand in for a written one
+  const written = dates.filter((d) => !d.inferred);
+  if (written.length === 0) return null;
 
   // First, look for high-confidence DOS classification
-  const confidentDOS = dates.find(
+  const confidentDOS = written.find(
     (d) => d.classification === "date_of_service" && d.confidence >= 0.8
   );
   if (confidentDOS) {
     return { date: confidentDOS.iso, confident: true };
   }
 
-  // Filter out DOB and fax dates
-  const candidates = dates.filter(
-    (d) => d.classification !== "dob" && d.classification !== "fax"
+  // Filter out dates that never mark when care was given (DOB, fax, print...)
+  const candidates = written.filter(
+    (d) => !NON_SERVICE_CLASSIFICATIONS.includes(d.classification)
   );
 
   if (candidates.length === 0) return null;
 
-  // Prefer dates at top of page (likely header dates)
-  const topDates = candidates.filter((d) => d.position === "top");
-  if (topDates.length === 1) {
-    return { date: topDates[0].iso, confident: false };
+  // An admission or encounter-level label beats an unlabeled date
+  const admission = candidates.find(
+    (d) => d.classification === "admission" && d.confidence >= 0.8
+  );
+  if (admission) {
+    return { date: admission.iso, confident: false };
   }
 
-  // If multiple candidates remain, we need LLM help
-  if (candidates.length === 1) {
-    return { date: candidates[0].iso, confident: false };
+  // Unlabeled dates in the footer are usually print or page stamps
+  const body = candidates.filter(
+    (d) => !(d.region === "footer" && d.classification === "unknown")
+  );
+  const pool = body.length > 0 ? body : candidates;
+
+  // Prefer header dates: by layout when known, otherwise by offset
+  const topDates = pool.filter((d) =>
+    d.region ? d.region === "header" : d.position === "top"
+  );
+  if (topDates.length === 1) {
+    return { date: topDates[0].iso, confident: false };
   }
 
   // Multiple ambiguous dates - return first but mark as not confident
-  return { date: candidates[0].iso, confident: false };
+  return { date: pool[0].iso, confident: false };
 }
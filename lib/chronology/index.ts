@@ -3,5 +3,59 @@ import {
   getDates,
   getDatesWithContext,
   selectDateOfService,
+  detectDateOrder,
+  resolveDateOrder,
 } from "./findDates";
-export { hasDate, getDates, getDatesWithContext, selectDateOfService };
+export {
+  hasDate,
+  getDates,
+  getDatesWithContext,
+  selectDateOfService,
+  detectDateOrder,
+  resolveDateOrder,
+};
+export type { DateParseOptions } from "./findDates";
+export { orderDates } from "./orderDates";
+export { resolveRelativeDates } from "./relativeDates";
+export type { RelativeDateOptions } from "./relativeDates";
+export { parseTimeOfDay, compareTimesOfDay } from "./timeOfDay";
+export { boxForRange, regionOf, placeMatch } from "./layout";
+export {
+  INHERITANCE_STRATEGIES,
+  DEFAULT_INHERITANCE_DECAY,
+  applyInheritance,
+  buildClusters,
+} from "./clusters";
+export type { InheritanceOptions } from "./clusters";
+export { findSegments, pageNumbering, providerName } from "./segments";
+export type { SegmentPage } from "./segments";
+export {
+  DEFAULT_CONTEXT_RULES,
+  DATE_CLASSIFICATIONS,
+  RULE_WINDOWS,
+  MAX_WINDOW_CHARS,
+  MAX_PATTERN_CHARS,
+  validateContextRule,
+  classifyByRules,
+} from "./contextRules";
+export type { ContextWindows } from "./contextRules";
+export {
+  LANGUAGE_PACKS,
+  DATE_LANGUAGES,
+  getLanguagePack,
+  detectLanguage,
+  resolveLanguage,
+} from "./languages";
+export type { LanguagePack } from "./languages";
+export {
+  DATE_PRECISIONS,
+  calendarDate,
+  parseIsoDate,
+  toIsoDate,
+  normalizeIsoDate,
+  compareCalendarDates,
+  compareIsoDates,
+  formatCalendarDate,
+  formatIsoDate,
+  shiftCalendarDate,
+} from "./calendarDate";
@@ -0,0 +1,25 @@
+import type { LanguagePack } from "./types";
+
+export const de: LanguagePack = {
+  code: "de",
+  name: "German",
+  months: {
+    jan: 1, januar: 1, jän: 1, jänner: 1,
+    feb: 2, februar: 2,
+    mär: 3, märz: 3, maerz: 3,
+    apr: 4, april: 4,
+    mai: 5,
+    jun: 6, juni: 6,
+    jul: 7, juli: 7,
+    aug: 8, august: 8,
+    sep: 9, sept: 9, september: 9,
+    okt: 10, oktober: 10,
+    nov: 11, november: 11,
+    dez: 12, dezember: 12,
+  },
+  ordinals: ["."],
+  connectors: [],
+  rangeConnectors: ["bis"],
+  defaultOrder: "dmy",
+  stopwords: ["der", "die", "das", "und", "mit", "für", "ist", "nicht", "den", "dem", "wurde", "ein"],
+};
@@ -0,0 +1,25 @@
+import type { LanguagePack } from "./types";
+
+export const en: LanguagePack = {
+  code: "en",
+  name: "English",
+  months: {
+    jan: 1, january: 1,
+    feb: 2, february: 2,
+    mar: 3, march: 3,
+    apr: 4, april: 4,
+    may: 5,
+    jun: 6, june: 6,
+    jul: 7, july: 7,
+    aug: 8, august: 8,
+    sep: 9, sept: 9, september: 9,
+    oct: 10, october: 10,
+    nov: 11, november: 11,
+    dec: 12, december: 12,
+  },
+  ordinals: ["st", "nd", "rd", "th"],
+  connectors: ["of"],
+  rangeConnectors: ["to", "through", "thru", "until", "till"],
+  defaultOrder: "mdy",
+  stopwords: ["the", "and", "with", "was", "for", "has", "this", "that", "were", "she"],
+};
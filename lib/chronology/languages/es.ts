@@ -0,0 +1,25 @@
+import type { LanguagePack } from "./types";
+
+export const es: LanguagePack = {
+  code: "es",
+  name: "Spanish",
+  months: {
+    ene: 1, enero: 1,
+    feb: 2, febrero: 2,
+    mar: 3, marzo: 3,
+    abr: 4, abril: 4,
+    may: 5, mayo: 5,
+    jun: 6, junio: 6,
+    jul: 7, julio: 7,
+    ago: 8, agosto: 8,
+    sep: 9, sept: 9, septiembre: 9, setiembre: 9,
+    oct: 10, octubre: 10,
+    nov: 11, noviembre: 11,
+    dic: 12, diciembre: 12,
+  },
+  ordinals: ["º", "°", "ª", "o"],
+  connectors: ["de", "del"],
+  rangeConnectors: ["al", "a", "hasta"],
+  defaultOrder: "dmy",
+  stopwords: ["el", "los", "las", "del", "con", "por", "una", "se", "presenta", "sin", "tras", "y"],
+};
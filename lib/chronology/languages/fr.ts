@@ -0,0 +1,25 @@
+import type { LanguagePack } from "./types";
+
+export const fr: LanguagePack = {
+  code: "fr",
+  name: "French",
+  months: {
+    janv: 1, janvier: 1,
+    févr: 2, fevr: 2, février: 2, fevrier: 2,
+    mars: 3,
+    avr: 4, avril: 4,
+    mai: 5,
+    juin: 6,
+    juil: 7, juillet: 7,
+    août: 8, aout: 8,
+    sept: 9, septembre: 9,
+    oct: 10, octobre: 10,
+    nov: 11, novembre: 11,
+    déc: 12, dec: 12, décembre: 12, decembre: 12,
+  },
+  ordinals: ["er", "re", "e", "ème"],
+  connectors: [],
+  rangeConnectors: ["au", "à", "jusqu'au"],
+  defaultOrder: "dmy",
+  stopwords: ["le", "les", "des", "du", "avec", "pour", "est", "une", "dans", "patiente", "aux", "sur"],
+};
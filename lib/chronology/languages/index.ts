@@ -0,0 +1,77 @@
+import { de } from "./de";
+import { en } from "./en";
+import { es } from "./es";
+import { fr } from "./fr";
+import { pt } from "./pt";
+import type { LanguagePack } from "./types";
+import type { DateLanguage, LanguagePolicy } from "@/lib/types/chronology";
+
+export type { LanguagePack } from "./types";
+
+export const LANGUAGE_PACKS: Record<DateLanguage, LanguagePack> = {
+  en,
+  es,
+  fr,
+  de,
+  pt,
+};
+
+export const DATE_LANGUAGES = Object.keys(LANGUAGE_PACKS) as DateLanguage[];
+
+// Stopword hits needed before detection trusts a language other than English
+const MIN_DETECTION_HITS = 20;
+
+/**
+ * The language pack a document is read with. Packs other than English are
+ * merged over English: headers, fax stamps and lab printouts in foreign
+ * records are often English anyway.
+ */
+export function getLanguagePack(language: DateLanguage = "en"): LanguagePack {
+  const pack = LANGUAGE_PACKS[language];
+  if (pack === en) return en;
+
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+  return {
+    ...pack,
+    months: { ...en.months, ...pack.months },
+    ordinals: union(pack.ordinals, en.ordinals),
+    connectors: union(pack.connectors, en.connectors),
+    rangeConnectors: union(pack.rangeConnectors, en.rangeConnectors),
+  };
+}
+
+/**
+ * Detects a document's language by counting each pack's stopwords across
+ * its pages. Returns null when there is too little text to tell or the
+ * leading languages are close.
+ */
+export function detectLanguage(texts: string[]): DateLanguage | null {
+  const scores = new Map<DateLanguage, number>(DATE_LANGUAGES.map((code) => [code, 0]));
+  const stopwords = DATE_LANGUAGES.map(
+    (code) => [code, new Set(LANGUAGE_PACKS[code].stopwords)] as const
+  );
+
+  for (const text of texts) {
+    for (const word of text.toLowerCase().match(/[a-zà-öø-ÿ]+/g) ?? []) {
+      for (const [code, words] of stopwords) {
+        if (words.has(word)) scores.set(code, scores.get(code)! + 1);
+      }
+    }
+  }
+
+  const [best, runnerUp] = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  if (best[1] < MIN_DETECTION_HITS || best[1] < runnerUp[1] * 1.5) return null;
+  return best[0];
+}
+
+/**
+ * Resolves a document's language setting to a concrete language. "auto"
+ * detects it from the document's text and falls back to English.
+ */
+export function resolveLanguage(
+  policy: LanguagePolicy,
+  texts: string[]
+): DateLanguage {
+  if (policy !== "auto") return policy;
+  return detectLanguage(texts) ?? "en";
+}
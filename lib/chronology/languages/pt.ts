@@ -0,0 +1,25 @@
+import type { LanguagePack } from "./types";
+
+export const pt: LanguagePack = {
+  code: "pt",
+  name: "Portuguese",
+  months: {
+    jan: 1, janeiro: 1,
+    fev: 2, fevereiro: 2,
+    mar: 3, março: 3, marco: 3,
+    abr: 4, abril: 4,
+    mai: 5, maio: 5,
+    jun: 6, junho: 6,
+    jul: 7, julho: 7,
+    ago: 8, agosto: 8,
+    set: 9, setembro: 9,
+    out: 10, outubro: 10,
+    nov: 11, novembro: 11,
+    dez: 12, dezembro: 12,
+  },
+  ordinals: ["º", "°", "o"],
+  connectors: ["de", "do"],
+  rangeConnectors: ["a", "até"],
+  defaultOrder: "dmy",
+  stopwords: ["os", "do", "da", "dos", "das", "com", "não", "uma", "foi", "pelo", "pela", "em"],
+};
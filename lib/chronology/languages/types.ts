@@ -0,0 +1,19 @@
+import type { DateLanguage, DateOrder } from "@/lib/types/chronology";
+
+/** The words a language writes dates with, for the date extractor */
+export interface LanguagePack {
+  code: DateLanguage;
+  name: string;
+  /** Month names and abbreviations (lowercase), mapped to 1-based month numbers */
+  months: Record<string, number>;
+  /** Suffixes written after a day number: "th", "er" (1er), "º", "." (15.) */
+  ordinals: string[];
+  /** Words between the parts of a date: "of", "de" (15 de enero de 2023) */
+  connectors: string[];
+  /** Words joining two dates into a range: "to", "al", "bis" */
+  rangeConnectors: string[];
+  /** Numeric date order to fall back on when a document doesn't settle it */
+  defaultOrder: DateOrder;
+  /** Frequent words that mark running text as this language */
+  stopwords: string[];
+}
@@ -0,0 +1,91 @@
+import { getPosition } from "./context";
+import type {
+  BoundingBox,
+  PageLayout,
+  PagePosition,
+  PageRegion,
+} from "@/lib/types/chronology";
+
+// Letterheads and running headers sit in the top of the page, page numbers
+// and print stamps in the bottom
+const HEADER_BOTTOM = 0.15;
+const FOOTER_TOP = 0.9;
+
+/** The smallest box holding the words that overlap `start`-`end`, or null */
+export function boxForRange(
+  layout: PageLayout,
+  start: number,
+  end: number
+): BoundingBox | null {
+  let box: BoundingBox | null = null;
+  for (const word of layout.words) {
+    if (word.end <= start || word.start >= end) continue;
+    box = box
+      ? {
+          left: Math.min(box.left, word.box.left),
+          top: Math.min(box.top, word.box.top),
+          right: Math.max(box.right, word.box.right),
+          bottom: Math.max(box.bottom, word.box.bottom),
+        }
+      : { ...word.box };
+  }
+  return box;
+}
+
+/**
+ * Boxes for the words overlapping `start`-`end`, one per line, so a sentence
+ * that wraps is outlined line by line rather than as one block.
+ */
+export function lineBoxesForRange(
+  layout: PageLayout,
+  start: number,
+  end: number
+): BoundingBox[] {
+  const lines: BoundingBox[] = [];
+  for (const word of layout.words) {
+    if (word.end <= start || word.start >= end) continue;
+    const line = lines[lines.length - 1];
+    const middle = (word.box.top + word.box.bottom) / 2;
+    // Same line: vertically within the line so far and not back at the margin
+    if (line && middle >= line.top && middle <= line.bottom && word.box.left >= line.left) {
+      line.left = Math.min(line.left, word.box.left);
+      line.top = Math.min(line.top, word.box.top);
+      line.right = Math.max(line.right, word.box.right);
+      line.bottom = Math.max(line.bottom, word.box.bottom);
+    } else {
+      lines.push({ ...word.box });
+    }
+  }
+  return lines;
+}
+
+/** Which part of the page a box sits in */
+export function regionOf(box: BoundingBox): PageRegion {
+  if (box.bottom <= HEADER_BOTTOM) return "header";
+  if (box.top >= FOOTER_TOP) return "footer";
+  return "body";
+}
+
+/** Top or bottom fifth of the page, or between, by the box's vertical center */
+function positionOf(box: BoundingBox): PagePosition {
+  const center = (box.top + box.bottom) / 2;
+  if (center < 0.2) return "top";
+  if (center > 0.8) return "bottom";
+  return "middle";
+}
+
+/**
+ * Places a match on the page. With the page's layout the position comes from
+ * where the words are drawn, which holds for multi-column forms and long
+ * footers; without it, from the character offset.
+ */
+export function placeMatch(
+  text: string,
+  offset: number,
+  length: number,
+  layout?: PageLayout
+): { position: PagePosition; box?: BoundingBox; region?: PageRegion } {
+  const box = layout ? boxForRange(layout, offset, offset + length) : null;
+  if (!box) return { position: getPosition(offset, text.length) };
+  return { position: positionOf(box), box, region: regionOf(box) };
+}
@@ -1,69 +1,28 @@
-import { parse, isValid } from "date-fns";
-
-/**
- * Attempts to parse a date string using common formats.
- * Returns a Date object if successful, null otherwise.
- */
-function parseDate(dateStr: string): Date | null {
-  const formats = [
-    // ISO formats
-    "yyyy-MM-dd",
-    "yyyy/MM/dd",
-    "yyyy.MM.dd",
-    // DMY formats
-    "dd-MM-yyyy",
-    "dd/MM/yyyy",
-    "dd.MM.yyyy",
-    "dd-MM-yy",
-    "dd/MM/yy",
-    "dd.MM.yy",
-    // MDY formats
-    "MM-dd-yyyy",
-    "MM/dd/yyyy",
-    "MM.dd.yyyy",
-    "MM-dd-yy",
-    "MM/dd/yy",
-    "MM.dd.yy",
-    // Compact
-    "yyyyMMdd",
-    // Month name formats
-    "MMM d, yyyy",
-    "MMM d yyyy",
-    "MMMM d, yyyy",
-    "MMMM d yyyy",
-    "d MMM yyyy",
-    "d MMMM yyyy",
-    "MMM yyyy",
-    "MMMM yyyy",
-    // Numeric month/year
-    "MM/yyyy",
-    "MM-yyyy",
-  ];
-
-  for (const format of formats) {
-    const parsed = parse(dateStr.trim(), format, new Date());
-    if (isValid(parsed)) {
-      return parsed;
-    }
-  }
-
-  return null;
-}
+import { compareCalendarDates } from "./calendarDate";
+import { parseDate } from "./findDates";
+import type { DateLanguage, DateOrder } from "@/lib/types/chronology";
 
 /**
  * Orders an array of date strings in chronological order.
  * Invalid dates are placed at the end in their original order.
+ * Ambiguous numeric dates are read in `order` (default MDY), and month
+ * names in `language` as well as English.
  */
-export function orderDates(dates: string[]): string[] {
+export function orderDates(
+  dates: string[],
+  order: DateOrder = "mdy",
+  language: DateLanguage = "en"
+): string[] {
   const parsed = dates.map((dateStr) => ({
     original: dateStr,
-    date: parseDate(dateStr),
+    date: parseDate(dateStr, order, language),
   }));
 
   const valid = parsed.filter((item) => item.date !== null);
   const invalid = parsed.filter((item) => item.date === null);
 
-  valid.sort((a, b) => a.date!.getTime() - b.date!.getTime());
+  // Array.prototype.sort is stable, so equal dates keep their input order
+  valid.sort((a, b) => compareCalendarDates(a.date!, b.date!));
 
   return [...valid.map((item) => item.original), ...invalid.map((item) => item.original)];
 }
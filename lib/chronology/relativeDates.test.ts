@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getDatesWithContext } from "./findDates";
+
+/** The dates worked out from relative expressions in `text` */
+function inferred(text: string) {
+  return getDatesWithContext(text).filter((d) => d.inferred);
+}
+
+describe("clinical offsets", () => {
+  it("counts post-op days from the surgery date", () => {
+    const [date] = inferred("Surgery 01/15/2024. POD #3 wound check.");
+    expect(date.raw).toBe("POD #3");
+    expect(date.iso).toBe("2024-01-18");
+    expect(date.inferred?.anchor).toBe("2024-01-15");
+    expect(date.inferred?.reasoning).toBe("3 days after surgery on 01/15/2024");
+  });
+
+  it("counts the admission date as hospital day 1", () => {
+    const [date] = inferred("Admitted 02/01/2024. Hospital day 2: afebrile.");
+    expect(date.iso).toBe("2024-02-02");
+    expect(date.precision).toBe("day");
+  });
+});
+
+describe("counted expressions", () => {
+  it("counts \"ago\" from the date of service, approximately", () => {
+    const [date] = inferred(
+      "Date of Service: 03/10/2023. Patient reports chest pain 2 weeks ago."
+    );
+    expect(date.iso).toBe("2023-02-24");
+    expect(date.precision).toBe("approximate");
+    expect(date.inferred?.anchorRaw).toBe("03/10/2023");
+  });
+
+  it("counts from the event a \"prior to\" expression names", () => {
+    const [date] = inferred(
+      "Discharged 02/10/2024. 2 weeks prior to admission he fell. Admitted 02/01/2024."
+    );
+    expect(date.iso).toBe("2024-01-18");
+    expect(date.inferred?.anchor).toBe("2024-02-01");
+  });
+
+  it("resolves yesterday from a nearby date when there is no date of service", () => {
+    const [date] = inferred("Seen 05/05/2023. Fever started yesterday.");
+    expect(date.iso).toBe("2023-05-04");
+    expect(date.precision).toBe("day");
+  });
+
+  it.each(["Fever started yesterday.", "Labs drawn 3 days later."])(
+    "skips %j with nothing to count from",
+    (text) => {
+      expect(inferred(text)).toEqual([]);
+    }
+  );
+});
@@ -0,0 +1,290 @@
+import {
+  formatCalendarDate,
+  parseIsoDate,
+  shiftCalendarDate,
+  toIsoDate,
+} from "./calendarDate";
+import { surroundingText } from "./context";
+import { placeMatch } from "./layout";
+import type {
+  CalendarDate,
+  DatePrecision,
+  DateUnit,
+  ExtractedDate,
+  PageLayout,
+} from "@/lib/types/chronology";
+
+export interface RelativeDateOptions {
+  /** The page's date of service (ISO), when known */
+  anchor?: string;
+  /** Where the page's words are drawn */
+  layout?: PageLayout;
+}
+
+/** A written date that relative expressions are counted from */
+interface Anchor {
+  date: CalendarDate;
+  raw: string;
+  /** How the anchor reads in reasoning, e.g. "surgery on 01/15/2024" */
+  label: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const COUNT = String.raw`(\d{1,3}|an?|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)`;
+
+// POD #3 / post-op day 3 / postoperative day 3
+const POST_OP_DAY = /\b(?:POD|post[-\s]?op(?:erative)?\s+day)\s*#?\s*(\d{1,3})\b/gi;
+
+// HD #2 / hospital day 2 (the day of admission is day 1)
+const HOSPITAL_DAY = /\b(?:HD|hospital\s+day)\s*#?\s*(\d{1,3})\b/gi;
+
+// on day of admission / on admission
+const ADMISSION_DAY = /\bon\s+(?:the\s+)?(?:day\s+of\s+)?admission\b/gi;
+
+// 2 weeks ago / three days prior to admission / a month later
+const COUNTED_OFFSET = new RegExp(
+  String.raw`\b${COUNT}\s+(day|week|month|year)s?\s+(ago|prior|earlier|before|previously|later|after)(?:\s+(?:to\s+)?(?:the\s+)?(admission|surgery|procedure|operation))?\b`,
+  "gi"
+);
+
+// yesterday / last night / tomorrow
+const DEICTIC = /\b(yesterday|last\s+night|tomorrow)\b/gi;
+
+// Words just before a written date that make it the surgery or admission date
+const SURGERY_CONTEXT = /\b(?:surgery|surgical|operation|operative|procedure|s\/p|status\s+post|OR\s+date)\b[^.\n]*$/i;
+const ADMISSION_CONTEXT = /\badmi(?:t|tted|ssion)\b[^.\n]*$/i;
+
+// How far back a nearby date may be for "3 days later" to count from it
+const NEARBY_CHARS = 300;
+
+// Counted from a named anchor (surgery, admission) vs from the page's date
+const ANCHORED_CONFIDENCE = 0.7;
+const SERVICE_CONFIDENCE = 0.6;
+const NEARBY_CONFIDENCE = 0.5;
+
+function plural(amount: number, unit: DateUnit): string {
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
+/**
+ * Finds the written date a given kind of event happened on, from the words
+ * just before it ("s/p appendectomy 01/15/2024").
+ */
+function contextAnchor(
+  dates: ExtractedDate[],
+  pattern: RegExp,
+  event: string
+): Anchor | null {
+  for (const d of dates) {
+    const date = parseIsoDate(d.iso, d.precision === "approximate");
+    if (date && pattern.test(d.context.before)) {
+      return { date, raw: d.raw, label: `${event} on ${d.raw}` };
+    }
+  }
+  return null;
+}
+
+/**
+ * The page's date of service: the known one if given, otherwise the first
+ * written date classified as one.
+ */
+function serviceAnchor(
+  dates: ExtractedDate[],
+  options: RelativeDateOptions
+): Anchor | null {
+  if (options.anchor) {
+    const date = parseIsoDate(options.anchor);
+    if (date) {
+      return {
+        date,
+        raw: options.anchor,
+        label: `the date of service (${formatCalendarDate(date)})`,
+      };
+    }
+  }
+
+  const dos = dates.find((d) => d.classification === "date_of_service");
+  const date = dos && parseIsoDate(dos.iso, dos.precision === "approximate");
+  return date
+    ? { date, raw: dos.raw, label: `the date of service (${dos.raw})` }
+    : null;
+}
+
+/** The closest written date ending before `offset`, ignoring DOB and fax dates */
+function nearbyAnchor(dates: ExtractedDate[], offset: number): Anchor | null {
+  for (let i = dates.length - 1; i >= 0; i--) {
+    const d = dates[i];
+    const end = d.offset + d.raw.length;
+    if (end > offset) continue;
+    if (offset - end > NEARBY_CHARS) break;
+    if (d.classification === "dob" || d.classification === "fax") continue;
+
+    const date = parseIsoDate(d.iso, d.precision === "approximate");
+    if (date) return { date, raw: d.raw, label: d.raw };
+  }
+  return null;
+}
+
+/**
+ * Resolves relative expressions in page text - clinical offsets ("POD #3",
+ * "hospital day 2", "on admission") and counted ones ("2 weeks ago",
+ * "3 days later", "yesterday") - against the page's written dates.
+ *
+ * Clinical offsets count from the surgery or admission date written on the
+ * page. "Ago", "yesterday" and "tomorrow" count from the date of service,
+ * or the nearest date written before them when there is none; "prior",
+ * "later" and the like count from the date they name ("2 weeks prior to
+ * admission") or the nearest date written before them. Expressions with
+ * nothing to count from are skipped.
+ *
+ * `dates` are the page's written dates in offset order. The returned dates
+ * carry `inferred` with the anchor and the reasoning for reviewers.
+ */
+export function resolveRelativeDates(
+  text: string,
+  dates: ExtractedDate[],
+  options: RelativeDateOptions = {}
+): ExtractedDate[] {
+  if (!text) return [];
+
+  const written = dates.filter((d) => !d.inferred);
+  const surgery = contextAnchor(written, SURGERY_CONTEXT, "surgery");
+  const admission = contextAnchor(written, ADMISSION_CONTEXT, "admission");
+  const service = serviceAnchor(written, options);
+  const results: ExtractedDate[] = [];
+
+  const add = (
+    match: RegExpExecArray,
+    anchor: Anchor | null,
+    amount: number,
+    unit: DateUnit,
+    reasoning: (anchor: Anchor) => string,
+    confidence: number
+  ) => {
+    if (!anchor) return;
+    const shifted = shiftCalendarDate(anchor.date, amount, unit);
+    if (!shifted) return;
+
+    // Only whole days counted from an exact day are exact
+    const precision: DatePrecision =
+      unit === "day" && anchor.date.precision === "day" ? "day" : "approximate";
+    const raw = match[0];
+    const offset = match.index;
+
+    results.push({
+      raw,
+      iso: toIsoDate(shifted),
+      precision,
+      context: surroundingText(text, offset, raw.length),
+      ...placeMatch(text, offset, raw.length, options.layout),
+      offset,
+      classification: "referenced",
+      confidence,
+      inferred: {
+        anchor: toIsoDate(anchor.date),
+        anchorRaw: anchor.raw,
+        reasoning: reasoning(anchor),
+      },
+    });
+  };
+
+  let match: RegExpExecArray | null;
+
+  // Without a written surgery or admission date, a note's "POD #3" or
+  // "hospital day 2" still dates the surgery or admission from the note's own date
+  while ((match = POST_OP_DAY.exec(text)) !== null) {
+    const day = parseInt(match[1]);
+    if (surgery) {
+      add(match, surgery, day, "day", (a) => `${plural(day, "day")} after ${a.label}`, ANCHORED_CONFIDENCE);
+    } else {
+      add(
+        match,
+        service,
+        -day,
+        "day",
+        (a) => `Surgery date: post-op day ${day} on ${a.label}`,
+        SERVICE_CONFIDENCE
+      );
+    }
+  }
+
+  while ((match = HOSPITAL_DAY.exec(text)) !== null) {
+    const day = parseInt(match[1]);
+    if (day < 1) continue;
+    if (admission) {
+      add(
+        match,
+        admission,
+        day - 1,
+        "day",
+        (a) => `Hospital day ${day}, counting ${a.label} as day 1`,
+        ANCHORED_CONFIDENCE
+      );
+    } else {
+      add(
+        match,
+        service,
+        -(day - 1),
+        "day",
+        (a) => `Admission date: hospital day ${day} on ${a.label}`,
+        SERVICE_CONFIDENCE
+      );
+    }
+  }
+
+  while ((match = ADMISSION_DAY.exec(text)) !== null) {
+    add(match, admission, 0, "day", (a) => `Same day as ${a.label}`, ANCHORED_CONFIDENCE);
+  }
+
+  while ((match = COUNTED_OFFSET.exec(text)) !== null) {
+    const count = match[1].toLowerCase();
+    const amount = NUMBER_WORDS[count] ?? parseInt(count);
+    const unit = match[2].toLowerCase() as DateUnit;
+    const direction = match[3].toLowerCase();
+    const named = match[4]?.toLowerCase();
+    const later = direction === "later" || direction === "after";
+
+    let anchor: Anchor | null;
+    let confidence = SERVICE_CONFIDENCE;
+    if (named === "admission") {
+      anchor = admission;
+      confidence = ANCHORED_CONFIDENCE;
+    } else if (named) {
+      anchor = surgery;
+      confidence = ANCHORED_CONFIDENCE;
+    } else if (direction === "ago") {
+      anchor = service ?? nearbyAnchor(written, match.index);
+    } else {
+      anchor = nearbyAnchor(written, match.index);
+      if (anchor) confidence = NEARBY_CONFIDENCE;
+      else anchor = service;
+    }
+
+    add(
+      match,
+      anchor,
+      later ? amount : -amount,
+      unit,
+      (a) => `${plural(amount, unit)} ${later ? "after" : "before"} ${a.label}`,
+      confidence
+    );
+  }
+
+  while ((match = DEICTIC.exec(text)) !== null) {
+    const tomorrow = match[1].toLowerCase() === "tomorrow";
+    add(
+      match,
+      service ?? nearbyAnchor(written, match.index),
+      tomorrow ? 1 : -1,
+      "day",
+      (a) => `The day ${tomorrow ? "after" : "before"} ${a.label}`,
+      SERVICE_CONFIDENCE
+    );
+  }
+
+  return results.sort((a, b) => a.offset - b.offset);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { findSegments, pageNumbering, providerName } from "./segments";
+import type { SegmentPage } from "./segments";
+
+/** Pages numbered from 1, with the given text */
+function pages(...texts: string[]): SegmentPage[] {
+  return texts.map((text, i) => ({ pageNumber: i + 1, text }));
+}
+
+describe("pageNumbering", () => {
+  it.each(["Page 2 of 5", "Pg. 2 of 5", "page 2/5"])("reads %j", (text) => {
+    expect(pageNumbering(`Report\n${text}`)).toEqual({ page: 2, of: 5 });
+  });
+
+  it("ignores numbering past the last page", () => {
+    expect(pageNumbering("Page 6 of 5")).toBeNull();
+  });
+});
+
+describe("providerName", () => {
+  it("compares providers without credentials or punctuation", () => {
+    expect(providerName("Provider: Jane Smith, M.D.")).toBe("jane smith");
+    expect(providerName("Attending Physician: JANE SMITH MD")).toBe("jane smith");
+  });
+});
+
+describe("findSegments", () => {
+  it("splits where page numbering restarts", () => {
+    const segments = findSegments(
+      pages("Page 1 of 2", "Page 2 of 2", "Page 1 of 1", "Page 1 of 3")
+    );
+    expect(segments.map((s) => [s.startPage, s.endPage])).toEqual([
+      [1, 2],
+      [3, 3],
+      [4, 4],
+    ]);
+    expect(segments[1].boundaries).toEqual(["page_numbering"]);
+  });
+
+  it("splits where a different provider is named", () => {
+    const segments = findSegments(
+      pages("Provider: Jane Smith MD", "Vitals stable", "Provider: Omar Haddad DO")
+    );
+    expect(segments).toEqual([
+      { startPage: 1, endPage: 2, boundaries: [], provider: "jane smith" },
+      { startPage: 3, endPage: 3, boundaries: ["provider"], provider: "omar haddad" },
+    ]);
+  });
+
+  it("keeps pages together while their numbering carries on", () => {
+    const segments = findSegments(
+      pages("Provider: Jane Smith\nPage 1 of 2", "Provider: Omar Haddad\nPage 2 of 2")
+    );
+    expect(segments).toHaveLength(1);
+  });
+
+  it("needs more than a changed header to split", () => {
+    const segments = findSegments(
+      pages(
+        "Riverside Cardiology Associates\nProgress note",
+        "Northgate Imaging Center\nRadiology report"
+      )
+    );
+    expect(segments).toHaveLength(1);
+  });
+
+  it("returns nothing for no pages", () => {
+    expect(findSegments([])).toEqual([]);
+  });
+});
@@ -0,0 +1,201 @@
+import { regionOf } from "./layout";
+import type {
+  DocumentSegment,
+  PageLayout,
+  SegmentBoundary,
+} from "@/lib/types/chronology";
+
+/** A page as seen by segmentation */
+export interface SegmentPage {
+  pageNumber: number;
+  text: string;
+  layout?: PageLayout;
+}
+
+// "Page 2 of 5", "Pg. 2 of 5", "Page 2/5"
+const PAGE_NUMBERING =
+  /\b(?:page|pg\.?)\s*(\d{1,4})\s*(?:of|\/)\s*(\d{1,4})\b/i;
+
+// Labeled provider or facility lines. Ordering and referring providers are
+// left out: they change between the orders and results of one record.
+const PROVIDER_LABEL =
+  /\b(?:rendering\s+provider|attending(?:\s+physician)?|provider|physician|facility)\s*:[ \t]*([^\n]{3,80})/i;
+
+// Credentials and punctuation that vary in how one provider is written
+const PROVIDER_NOISE = /\b(?:md|do|np|pa|rn|dds|phd|mbbs)\b|[^a-z\s]/g;
+
+/** Lines of text taken as the header when the page has no layout */
+const HEADER_LINES = 3;
+
+/** Fewer header words than this are too little to compare */
+const MIN_HEADER_WORDS = 3;
+
+/** Headers sharing less than this fraction of their words are different */
+const HEADER_SIMILARITY_THRESHOLD = 0.3;
+
+/** Word heights differing by more than this ratio mean a different font size */
+const FONT_SIZE_RATIO = 1.5;
+
+/** Left margins differing by more than this (of the page width) are a shift */
+const MARGIN_SHIFT = 0.08;
+
+/**
+ * Evidence weights: strong evidence starts a segment by itself, weak
+ * evidence (headers and layout vary within a record) needs company.
+ */
+const BOUNDARY_WEIGHTS: Record<SegmentBoundary, number> = {
+  page_numbering: 2,
+  provider: 2,
+  header: 1,
+  layout: 1,
+};
+const BOUNDARY_SCORE = 2;
+
+/** Reads "Page X of Y" from a page, if it's numbered */
+export function pageNumbering(text: string): { page: number; of: number } | null {
+  const match = text.match(PAGE_NUMBERING);
+  if (!match) return null;
+  const page = parseInt(match[1], 10);
+  const of = parseInt(match[2], 10);
+  return page >= 1 && page <= of ? { page, of } : null;
+}
+
+/** The first labeled provider or facility on a page, normalized for comparison */
+export function providerName(text: string): string | null {
+  const match = text.match(PROVIDER_LABEL);
+  if (!match) return null;
+  const name = match[1]
+    .toLowerCase()
+    .replace(/\./g, "") // "M.D." -> "md"
+    .replace(PROVIDER_NOISE, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return name.length >= 3 ? name : null;
+}
+
+/**
+ * Words in the page's header: from its header region when the layout is
+ * known, otherwise its first few lines. Numbers are left out, so headers
+ * that differ only in dates and page numbers still match.
+ */
+function headerWords(page: SegmentPage): Set<string> {
+  const text = page.layout
+    ? page.layout.words
+        .filter((w) => regionOf(w.box) === "header")
+        .map((w) => page.text.slice(w.start, w.end))
+        .join(" ")
+    : page.text
+        .split("\n")
+        .filter((line) => line.trim())
+        .slice(0, HEADER_LINES)
+        .join(" ");
+  return new Set(text.toLowerCase().match(/[a-z]{3,}/g) ?? []);
+}
+
+/** Fraction of words two headers share (Jaccard similarity) */
+function headerSimilarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Typical word height and left margin of a page, when its layout is known */
+function layoutMetrics(page: SegmentPage): { wordHeight: number; margin: number } | null {
+  const words = page.layout?.words.filter((w) => w.box.bottom > w.box.top);
+  if (!words || words.length === 0) return null;
+  return {
+    wordHeight: median(words.map((w) => w.box.bottom - w.box.top)),
+    margin: Math.min(...words.map((w) => w.box.left)),
+  };
+}
+
+function layoutShifted(
+  a: { wordHeight: number; margin: number },
+  b: { wordHeight: number; margin: number }
+): boolean {
+  const ratio = Math.max(a.wordHeight, b.wordHeight) / Math.min(a.wordHeight, b.wordHeight);
+  return ratio > FONT_SIZE_RATIO || Math.abs(a.margin - b.margin) > MARGIN_SHIFT;
+}
+
+/**
+ * Splits a document's pages into the medical records they came from. A page
+ * starts a new record when its page numbering restarts or the page before
+ * was the last of its numbered run, when it names a different provider than
+ * the record so far, or when both its header and its layout differ from the
+ * page before. Numbering that carries on from the page before ("Page 3 of 5"
+ * after "Page 2 of 5") keeps pages together regardless. Pages must be in
+ * page order.
+ */
+export function findSegments(pages: SegmentPage[]): DocumentSegment[] {
+  const segments: DocumentSegment[] = [];
+  let current: DocumentSegment | null = null;
+  let previous: {
+    numbering: ReturnType<typeof pageNumbering>;
+    header: Set<string>;
+    metrics: ReturnType<typeof layoutMetrics>;
+  } | null = null;
+
+  for (const page of pages) {
+    const numbering = pageNumbering(page.text);
+    const provider = providerName(page.text);
+    const header = headerWords(page);
+    const metrics = layoutMetrics(page);
+
+    const boundaries: SegmentBoundary[] = [];
+    const continues =
+      numbering &&
+      previous?.numbering &&
+      numbering.page === previous.numbering.page + 1 &&
+      numbering.of === previous.numbering.of;
+
+    if (current && previous && !continues) {
+      const previousEnded =
+        previous.numbering && previous.numbering.page === previous.numbering.of;
+      const restarted =
+        numbering &&
+        (numbering.page === 1 ||
+          (previous.numbering && numbering.of !== previous.numbering.of));
+      if (previousEnded || restarted) {
+        boundaries.push("page_numbering");
+      }
+      if (provider && current.provider && provider !== current.provider) {
+        boundaries.push("provider");
+      }
+      if (
+        header.size >= MIN_HEADER_WORDS &&
+        previous.header.size >= MIN_HEADER_WORDS &&
+        headerSimilarity(header, previous.header) < HEADER_SIMILARITY_THRESHOLD
+      ) {
+        boundaries.push("header");
+      }
+      if (metrics && previous.metrics && layoutShifted(metrics, previous.metrics)) {
+        boundaries.push("layout");
+      }
+    }
+
+    const score = boundaries.reduce((sum, b) => sum + BOUNDARY_WEIGHTS[b], 0);
+    if (!current || score >= BOUNDARY_SCORE) {
+      current = {
+        startPage: page.pageNumber,
+        endPage: page.pageNumber,
+        boundaries,
+        ...(provider && { provider }),
+      };
+      segments.push(current);
+    } else {
+      current.endPage = page.pageNumber;
+      if (!current.provider && provider) current.provider = provider;
+    }
+
+    previous = { numbering, header, metrics };
+  }
+
+  return segments;
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { getDatesWithContext } from "./findDates";
+import { compareTimesOfDay, parseTimeOfDay } from "./timeOfDay";
+
+describe("parseTimeOfDay", () => {
+  it.each([
+    ["14:30", "14:30"],
+    ["14:30:05", "14:30"],
+    ["2:30 PM", "14:30"],
+    ["2 pm", "14:00"],
+    ["12 a.m.", "00:00"],
+    ["12:15 pm", "12:15"],
+    ["0210 hrs", "02:10"],
+    ["at 0210", "02:10"],
+  ])("reads %j as %s", (written, time) => {
+    expect(parseTimeOfDay(written)).toBe(time);
+  });
+
+  it.each(["24:00", "14:60", "13 pm", "7"])("rejects %j", (written) => {
+    expect(parseTimeOfDay(written)).toBeNull();
+  });
+});
+
+describe("times next to dates", () => {
+  it("picks up a time written after its date", () => {
+    const [date] = getDatesWithContext("Seen 03/02/2023 14:30 in clinic");
+    expect(date.time).toBe("14:30");
+  });
+
+  it("picks up a time written before its date", () => {
+    const [date] = getDatesWithContext("Arrived at 0210 hrs on 03/02/2023");
+    expect(date.time).toBe("02:10");
+  });
+
+  it("doesn't give a date the previous date's time", () => {
+    const dates = getDatesWithContext("Seen 03/02/2023 14:30, 03/05/2023 follow-up");
+    expect(dates.map((d) => d.time)).toEqual(["14:30", undefined]);
+  });
+
+  it("ignores times on partial dates", () => {
+    const [date] = getDatesWithContext("Seen March 2023 14:30");
+    expect(date.time).toBeUndefined();
+  });
+});
+
+describe("compareTimesOfDay", () => {
+  it("orders times and puts untimed entries last", () => {
+    expect([null, "14:30", null, "02:10"].sort(compareTimesOfDay)).toEqual([
+      "02:10",
+      "14:30",
+      null,
+      null,
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Times of day are kept as 24-hour "HH:MM" strings, as written on the
+ * record. Like calendar dates, they carry no timezone.
+ */
+
+// 14:30 / 14:30:05 / 2:30 PM / 2 pm / 0210 hrs / at 0210
+const TIME_OF_DAY = String.raw`(?:(?:at\s+|@\s*)?(?:[01]?\d|2[0-3]):[0-5]\d(?::[0-5]\d)?(?:\s*[ap]\.?m\.?)?|(?:at\s+|@\s*)?(?:0?[1-9]|1[0-2])\s*[ap]\.?m\.?|(?:at\s+|@\s*)?(?:[01]\d|2[0-3])[0-5]\d\s*(?:hrs|hr|hours|h)\b|(?:at\s+|@\s*)(?:[01]\d|2[0-3])[0-5]\d)`;
+
+/** A time written straight after a date: "03/02/2023 14:30", "3/2/23, at 0210 hrs" */
+export const TIME_AFTER_DATE = new RegExp(
+  String.raw`^\s*,?\s*(${TIME_OF_DAY})(?![\w:])`,
+  "i"
+);
+
+/** A time written shortly before a date: "at 0210 hrs on 03/02/2023", "14:30, 3/2/23" */
+const TIME_BEFORE_DATE = new RegExp(
+  String.raw`(?<![\w:])(${TIME_OF_DAY})\s*,?\s*(?:on\s+)?$`,
+  "i"
+);
+
+/**
+ * Parses a written time ("14:30", "2:30 PM", "0210 hrs", "at 0210") into
+ * 24-hour "HH:MM", or returns null if it isn't a real time of day.
+ */
+export function parseTimeOfDay(value: string): string | null {
+  const match =
+    /^(?:at\s+|@\s*)?(\d{1,2}):?(\d{2})?(?::\d{2})?\s*(?:([ap])\.?m\.?|hrs|hr|hours|h)?$/i.exec(
+      value.trim()
+    );
+  if (!match) return null;
+
+  const [, h, m, meridiem] = match;
+  let hours = parseInt(h);
+  const minutes = m !== undefined ? parseInt(m) : 0;
+  // A bare number is not a time without minutes or am/pm
+  if (m === undefined && !meridiem) return null;
+  if (minutes > 59) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase() === "p" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Finds a time written straight after a date ending at `offset`. Returns the
+ * parsed time and how many characters it spans, or null.
+ */
+export function timeAfterDate(
+  text: string,
+  offset: number
+): { time: string; length: number } | null {
+  const match = TIME_AFTER_DATE.exec(text.slice(offset, offset + 30));
+  if (!match) return null;
+  const time = parseTimeOfDay(match[1]);
+  return time ? { time, length: match[0].length } : null;
+}
+
+/**
+ * Finds a time written shortly before a date starting at `offset`, ignoring
+ * text before `notBefore` (such as the previous date and its time). Returns
+ * the parsed time, or null.
+ */
+export function timeBeforeDate(
+  text: string,
+  offset: number,
+  notBefore = 0
+): string | null {
+  const match = TIME_BEFORE_DATE.exec(text.slice(Math.max(notBefore, offset - 30), offset));
+  return match ? parseTimeOfDay(match[1]) : null;
+}
+
+/**
+ * Orders "HH:MM" times, suitable for Array.prototype.sort. Untimed entries
+ * sort after timed ones.
+ */
+export function compareTimesOfDay(
+  a: string | null | undefined,
+  b: string | null | undefined
+): number {
+  if (!a || !b) return (a ? 0 : 1) - (b ? 0 : 1);
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,13 @@
+/**
+ * Shared client options for Google Cloud SDKs (Storage, Vision).
+ * Credentials come from the GCS_* environment variables.
+ */
+export function gcpClientOptions() {
+  return {
+    projectId: process.env.GCS_PROJECT_ID,
+    credentials: {
+      client_email: process.env.GCS_CLIENT_EMAIL,
+      private_key: process.env.GCS_PRIVATE_KEY?.replace(/\\n/g, "\n"),
+    },
+  };
+}
@@ -0,0 +1,42 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { LlmProvider } from "./types";
+
+/** Gemini Flash for cost efficiency */
+const DEFAULT_GEMINI_MODEL = "gemini-2.0-flash";
+
+/**
+ * Google Gemini. Needs GEMINI_API_KEY; GEMINI_MODEL picks the model
+ * (default: gemini-2.0-flash).
+ */
+export function createGeminiLlmProvider(
+  model = process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL
+): LlmProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error("GEMINI_API_KEY not configured");
+  }
+
+  const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+    model,
+    generationConfig: { responseMimeType: "application/json" },
+  });
+
+  return {
+    name: "gemini",
+    model,
+
+    async generateJson(prompt) {
+      const result = await generativeModel.generateContent(prompt);
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        usage: usage
+          ? {
+              inputTokens: usage.promptTokenCount,
+              outputTokens: usage.candidatesTokenCount,
+            }
+          : null,
+      };
+    },
+  };
+}
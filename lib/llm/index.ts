@@ -0,0 +1,45 @@
+import { createGeminiLlmProvider } from "./gemini";
+import { createMockLlmProvider } from "./mock";
+import { createOpenAiLlmProvider } from "./openai";
+import type { LlmProvider, LlmProviderName } from "./types";
+
+export type { LlmProvider, LlmProviderName, LlmReply, LlmUsage } from "./types";
+export { parseJsonReply } from "./json";
+export type { LlmFixture } from "./mock";
+export { createMockLlmProvider } from "./mock";
+
+export const LLM_PROVIDERS: LlmProviderName[] = ["gemini", "openai", "mock"];
+
+const globalForLlm = globalThis as unknown as {
+  llmProviders: Map<LlmProviderName, LlmProvider> | undefined;
+};
+
+function createLlmProvider(name: LlmProviderName): LlmProvider {
+  switch (name) {
+    case "gemini":
+      return createGeminiLlmProvider();
+    case "openai":
+      return createOpenAiLlmProvider();
+    case "mock":
+      return createMockLlmProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+/**
+ * Returns the shared provider for this process: the one named, or else the
+ * one selected by LLM_PROVIDER ("gemini", "openai" or "mock"). Defaults to
+ * Gemini. Throws if the provider isn't configured.
+ */
+export function getLlmProvider(name?: LlmProviderName): LlmProvider {
+  const selected = name ?? ((process.env.LLM_PROVIDER || "gemini") as LlmProviderName);
+  globalForLlm.llmProviders ??= new Map();
+
+  let provider = globalForLlm.llmProviders.get(selected);
+  if (!provider) {
+    provider = createLlmProvider(selected);
+    globalForLlm.llmProviders.set(selected, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { parseJsonReply } from "./json";
+
+describe("parseJsonReply", () => {
+  it.each([
+    ['{"events": []}'],
+    ['```json\n{"events": []}\n```'],
+    ['```\n{"events": []}\n```'],
+    ['Here are the events:\n{"events": []}\nLet me know if you need more.'],
+    ['{"events": [],}'],
+  ])("reads %j", (reply) => {
+    expect(parseJsonReply(reply)).toEqual({ events: [] });
+  });
+
+  it("drops trailing commas inside arrays", () => {
+    expect(parseJsonReply('{"events": [{"type": "lab"},]}')).toEqual({
+      events: [{ type: "lab" }],
+    });
+  });
+
+  it.each(["No events found.", '{"events": [}'])("throws on %j", (reply) => {
+    expect(() => parseJsonReply(reply)).toThrow(SyntaxError);
+  });
+});
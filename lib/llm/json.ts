@@ -0,0 +1,30 @@
+/**
+ * Parses a model's JSON reply, repairing the slips models make even in JSON
+ * mode: markdown code fences, prose around the object, and trailing commas.
+ * Throws a SyntaxError if the reply still isn't JSON.
+ */
+export function parseJsonReply(reply: string): unknown {
+  let text = reply.trim();
+
+  // Remove markdown code blocks if present
+  if (text.startsWith("```json")) {
+    text = text.slice(7);
+  } else if (text.startsWith("```")) {
+    text = text.slice(3);
+  }
+  if (text.endsWith("```")) {
+    text = text.slice(0, -3);
+  }
+  text = text.trim();
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    // Keep just the outermost object, without commas before closing brackets
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    if (start < 0 || end < start) throw error;
+    const repaired = text.slice(start, end + 1).replace(/,(\s*[}\]])/g, "$1");
+    return JSON.parse(repaired);
+  }
+}
@@ -0,0 +1,52 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createMockLlmProvider } from "./mock";
+
+/** Writes fixtures to a file and points LLM_MOCK_FIXTURES at it */
+function useFixturesFile(fixtures: unknown) {
+  const path = join(mkdtempSync(join(tmpdir(), "fixtures-")), "fixtures.json");
+  writeFileSync(path, JSON.stringify(fixtures));
+  vi.stubEnv("LLM_MOCK_FIXTURES", path);
+}
+
+describe("createMockLlmProvider", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("replies with the first fixture matching the prompt", async () => {
+    const provider = createMockLlmProvider([
+      { match: "lipid panel", response: { events: [{ type: "lab" }] } },
+      { response: { events: [{ type: "note" }] } },
+    ]);
+    expect(JSON.parse((await provider.generateJson("LIPID PANEL results")).text)).toEqual({
+      events: [{ type: "lab" }],
+    });
+    expect(JSON.parse((await provider.generateJson("Progress note")).text)).toEqual({
+      events: [{ type: "note" }],
+    });
+  });
+
+  it("replies with no events when nothing matches", async () => {
+    const reply = await createMockLlmProvider([]).generateJson("Progress note");
+    expect(JSON.parse(reply.text)).toEqual({ events: [], documentType: null });
+    expect(reply.usage).toEqual({ inputTokens: 4, outputTokens: 9 });
+  });
+
+  it("reads fixtures from LLM_MOCK_FIXTURES", async () => {
+    useFixturesFile([{ response: { events: [], documentType: "Lab" } }]);
+    const reply = await createMockLlmProvider().generateJson("Progress note");
+    expect(JSON.parse(reply.text)).toEqual({ events: [], documentType: "Lab" });
+  });
+
+  it.each([
+    [{ events: [] }, "must contain a JSON array of fixtures"],
+    [[{ match: "lab" }], "fixture 1: must be an object with a response"],
+    [[{ response: {} }, { match: 3, response: {} }], "fixture 2: must be an object"],
+  ])("rejects a fixtures file holding %j", (fixtures, problem) => {
+    useFixturesFile(fixtures);
+    expect(() => createMockLlmProvider()).toThrow(problem);
+  });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from "fs";
+import type { LlmProvider } from "./types";
+
+/** A canned reply, for prompts matching `match` */
+export interface LlmFixture {
+  /** Regular expression source tested against the prompt; omit to match any prompt */
+  match?: string;
+  /** The JSON to reply with */
+  response: unknown;
+}
+
+/** Rough characters per token, for usage figures that look like a real provider's */
+const CHARS_PER_TOKEN = 4;
+
+/** The reply when no fixture matches: a valid classification with no events */
+const EMPTY_REPLY = JSON.stringify({ events: [], documentType: null });
+
+/** Whether a parsed JSON value has a fixture's shape */
+function isLlmFixture(value: unknown): value is LlmFixture {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  return (
+    "response" in value &&
+    (!("match" in value) || value.match === undefined || typeof value.match === "string")
+  );
+}
+
+/** Reads fixtures from a JSON file holding an array of them */
+function loadFixturesFile(path: string): LlmFixture[] {
+  const fixtures: unknown = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(fixtures)) {
+    throw new Error(`LLM_MOCK_FIXTURES ${path} must contain a JSON array of fixtures`);
+  }
+  return fixtures.map((fixture, i) => {
+    if (!isLlmFixture(fixture)) {
+      throw new Error(
+        `LLM_MOCK_FIXTURES ${path}, fixture ${i + 1}: must be an object with a response and an optional string match`
+      );
+    }
+    return fixture;
+  });
+}
+
+/**
+ * A deterministic stand-in for a real model, for CI and machines without
+ * network access. Replies with the first fixture whose pattern matches the
+ * prompt, or a classification with no events if none does. Fixtures come
+ * from the JSON file at LLM_MOCK_FIXTURES when not passed in.
+ */
+export function createMockLlmProvider(
+  fixtures: LlmFixture[] = process.env.LLM_MOCK_FIXTURES
+    ? loadFixturesFile(process.env.LLM_MOCK_FIXTURES)
+    : []
+): LlmProvider {
+  const compiled = fixtures.map((fixture) => ({
+    pattern: fixture.match ? new RegExp(fixture.match, "i") : null,
+    text: JSON.stringify(fixture.response),
+  }));
+
+  return {
+    name: "mock",
+    model: "mock",
+
+    async generateJson(prompt) {
+      const fixture = compiled.find((f) => !f.pattern || f.pattern.test(prompt));
+      const text = fixture?.text ?? EMPTY_REPLY;
+      return {
+        text,
+        usage: {
+          inputTokens: Math.ceil(prompt.length / CHARS_PER_TOKEN),
+          outputTokens: Math.ceil(text.length / CHARS_PER_TOKEN),
+        },
+      };
+    },
+  };
+}
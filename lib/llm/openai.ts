@@ -0,0 +1,67 @@
+import type { LlmProvider } from "./types";
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+/** Requests running longer than this are abandoned (local models can be slow) */
+const REQUEST_TIMEOUT_MS = 120 * 1000;
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Any server with an OpenAI-compatible chat completions API: OpenAI itself,
+ * or local servers such as llama.cpp and Ollama. OPENAI_BASE_URL points at
+ * the API (default: https://api.openai.com/v1, e.g. http://localhost:11434/v1
+ * for Ollama) and OPENAI_MODEL names the model. OPENAI_API_KEY is sent when
+ * set; local servers usually don't need one.
+ */
+export function createOpenAiLlmProvider(
+  model = process.env.OPENAI_MODEL,
+  baseUrl = process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL
+): LlmProvider {
+  if (!model) {
+    throw new Error("OPENAI_MODEL not configured");
+  }
+  const apiKey = process.env.OPENAI_API_KEY;
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: "openai",
+    model,
+
+    async generateJson(prompt) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: "user", content: prompt }],
+          response_format: { type: "json_object" },
+          temperature: 0,
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `${endpoint} returned ${response.status}: ${(await response.text()).slice(0, 500)}`
+        );
+      }
+
+      const completion: ChatCompletion = await response.json();
+      return {
+        text: completion.choices?.[0]?.message?.content ?? "",
+        usage: completion.usage
+          ? {
+              inputTokens: completion.usage.prompt_tokens ?? 0,
+              outputTokens: completion.usage.completion_tokens ?? 0,
+            }
+          : null,
+      };
+    },
+  };
+}
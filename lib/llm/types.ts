@@ -0,0 +1,27 @@
+/** LLM backends the pipeline can classify pages with */
+export type LlmProviderName = "gemini" | "openai" | "mock";
+
+/** Tokens a request consumed, as reported by the provider */
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmReply {
+  /** The reply as the model wrote it (see parseJsonReply) */
+  text: string;
+  /** Null when the provider doesn't report usage */
+  usage: LlmUsage | null;
+}
+
+/** A language model that answers prompts with JSON */
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  /** Model identifier, recorded on the events it produces */
+  readonly model: string;
+  /**
+   * Sends a prompt with the provider's JSON output mode on. The reply is
+   * returned as written, since models don't always keep to valid JSON.
+   */
+  generateJson(prompt: string): Promise<LlmReply>;
+}
@@ -0,0 +1,94 @@
+import { getStorage } from "@/lib/storage";
+import { extractNativeText, hasUsableText } from "./nativeText";
+import { createTesseractOcrProvider } from "./tesseract";
+import { createVisionOcrProvider } from "./vision";
+import type { OcrInput, OcrPage, OcrProvider } from "./types";
+
+export type { OcrInput, OcrPage, OcrProvider, TextSource } from "./types";
+
+const globalForOcr = globalThis as unknown as {
+  ocrProvider: OcrProvider | undefined;
+};
+
+/**
+ * Creates the OCR provider selected by OCR_PROVIDER ("vision" or "tesseract").
+ * Defaults to Google Vision.
+ */
+function createOcrProvider(): OcrProvider {
+  const provider = process.env.OCR_PROVIDER || "vision";
+
+  switch (provider) {
+    case "vision":
+      return createVisionOcrProvider();
+    case "tesseract":
+      return createTesseractOcrProvider();
+    default:
+      throw new Error(`Unknown OCR_PROVIDER: ${provider}`);
+  }
+}
+
+/** Returns the shared OCR provider for this process */
+export function getOcrProvider(): OcrProvider {
+  if (!globalForOcr.ocrProvider) {
+    globalForOcr.ocrProvider = createOcrProvider();
+  }
+  return globalForOcr.ocrProvider;
+}
+
+/** Reports pages with text so far, out of the document's page count (0 if not yet known) */
+export type TextProgressCallback = (pagesDone: number, pageCount: number) => void;
+
+/**
+ * Produces text for every page of a stored PDF.
+ *
+ * Pages with an embedded text layer are read directly and only the remaining
+ * pages are sent to OCR. Set OCR_NATIVE_TEXT=false to always OCR.
+ */
+export async function extractDocumentText(
+  input: Pick<OcrInput, "documentId" | "key" | "runId">,
+  onProgress?: TextProgressCallback
+): Promise<OcrPage[]> {
+  const provider = getOcrProvider();
+  const data = await getStorage().get(input.key);
+
+  if (process.env.OCR_NATIVE_TEXT === "false") {
+    return provider.recognize({
+      ...input,
+      data,
+      onProgress: (done) => onProgress?.(done, 0),
+    });
+  }
+
+  const native = await extractNativeText(data);
+  const pages: OcrPage[] = [];
+  const needsOcr: number[] = [];
+
+  native.pages.forEach((text, index) => {
+    const pageNumber = index + 1;
+    if (hasUsableText(text)) {
+      pages.push({ pageNumber, text, source: "native", words: native.words[index] });
+    } else {
+      needsOcr.push(pageNumber);
+    }
+  });
+
+  console.log(
+    `[ocr] ${pages.length}/${native.pageCount} pages have a text layer, ${needsOcr.length} need OCR`
+  );
+  onProgress?.(pages.length, native.pageCount);
+
+  if (needsOcr.length > 0) {
+    const nativeCount = pages.length;
+    const ocrPages = await provider.recognize({
+      ...input,
+      data,
+      pageCount: native.pageCount,
+      // Let the provider use its whole-document path for fully scanned files
+      pages: needsOcr.length === native.pageCount ? undefined : needsOcr,
+      onProgress: (done) => onProgress?.(nativeCount + done, native.pageCount),
+    });
+    pages.push(...ocrPages);
+  }
+
+  return pages.sort((a, b) => a.pageNumber - b.pageNumber);
+}
@@ -0,0 +1,45 @@
+import type { BoundingBox, PageWord } from "@/lib/types/chronology";
+
+// How far past the previous word the next may start; further matches are
+// most likely the same characters in a later word
+const MAX_WORD_GAP = 100;
+
+/** A recognized word and its box, before it is matched to the page text */
+export interface RecognizedWord {
+  text: string;
+  box: BoundingBox;
+}
+
+/** Clamps a box to the page, normalizing by the page size when given */
+export function normalizeBox(
+  box: BoundingBox,
+  width = 1,
+  height = 1
+): BoundingBox {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return {
+    left: clamp(box.left / width),
+    top: clamp(box.top / height),
+    right: clamp(box.right / width),
+    bottom: clamp(box.bottom / height),
+  };
+}
+
+/**
+ * Finds each recognized word in the page text, in reading order, to record
+ * the characters it covers. Words the text doesn't contain (where the engine
+ * normalized spacing or symbols differently) are dropped.
+ */
+export function locateWords(text: string, words: RecognizedWord[]): PageWord[] {
+  const located: PageWord[] = [];
+  let cursor = 0;
+  for (const word of words) {
+    if (!word.text) continue;
+    const start = text.indexOf(word.text, cursor);
+    if (start < 0 || start - cursor > MAX_WORD_GAP) continue;
+    const end = start + word.text.length;
+    located.push({ start, end, box: word.box });
+    cursor = end;
+  }
+  return located;
+}
@@ -0,0 +1,88 @@
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import { normalizeBox } from "./layout";
+import type { PageWord } from "@/lib/types/chronology";
+
+/**
+ * Minimum non-whitespace characters for a page's embedded text layer to be
+ * trusted. Scanned pages often carry a few stray characters (stamps, Bates
+ * numbers) that should not stop them from being OCR'd.
+ */
+export const MIN_NATIVE_TEXT_CHARS = 40;
+
+export interface NativeTextResult {
+  pageCount: number;
+  /** Embedded text per page, indexed by page number - 1 */
+  pages: string[];
+  /** Where each page's words are drawn, indexed like `pages` */
+  words: PageWord[][];
+}
+
+/**
+ * Reads the embedded text layer of a born-digital PDF, page by page.
+ * Pages without a text layer come back as empty strings.
+ */
+export async function extractNativeText(data: Buffer): Promise<NativeTextResult> {
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    useSystemFonts: false,
+    isEvalSupported: false,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    const words: PageWord[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const viewport = page.getViewport({ scale: 1 });
+
+      let text = "";
+      const pageWords: PageWord[] = [];
+      for (const item of content.items) {
+        if (!("str" in item)) continue;
+
+        // The item's box in viewport space (top-left origin, page rotation applied)
+        const [x, y] = [item.transform[4], item.transform[5]];
+        const [x0, y0] = viewport.convertToViewportPoint(x, y);
+        const [x1, y1] = viewport.convertToViewportPoint(x + item.width, y + item.height);
+        const charWidth = item.str.length > 0 ? (x1 - x0) / item.str.length : 0;
+
+        // Words share the item's line; their widths are estimated per character
+        for (const match of item.str.matchAll(/\S+/g)) {
+          const left = x0 + charWidth * match.index;
+          const right = left + charWidth * match[0].length;
+          pageWords.push({
+            start: text.length + match.index,
+            end: text.length + match.index + match[0].length,
+            box: normalizeBox(
+              {
+                left: Math.min(left, right),
+                top: Math.min(y0, y1),
+                right: Math.max(left, right),
+                bottom: Math.max(y0, y1),
+              },
+              viewport.width,
+              viewport.height
+            ),
+          });
+        }
+
+        text += item.str;
+        if (item.hasEOL) text += "\n";
+      }
+
+      pages.push(text);
+      words.push(pageWords);
+      page.cleanup();
+    }
+
+    return { pageCount: pdf.numPages, pages, words };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/** Returns true if the page's text layer is substantial enough to skip OCR */
+export function hasUsableText(text: string): boolean {
+  return text.replace(/\s/g, "").length >= MIN_NATIVE_TEXT_CHARS;
+}
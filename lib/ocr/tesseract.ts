@@ -0,0 +1,114 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { promisify } from "util";
+import { getStorage } from "@/lib/storage";
+import { locateWords, normalizeBox } from "./layout";
+import type { RecognizedWord } from "./layout";
+import { extractNativeText } from "./nativeText";
+import type { OcrPage, OcrProvider } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Reads the words and their pixel boxes from Tesseract's TSV output, whose
+ * page row (level 1) gives the image size to normalize by.
+ */
+function parseTsvWords(tsv: string): RecognizedWord[] {
+  const words: RecognizedWord[] = [];
+  let width = 1;
+  let height = 1;
+
+  for (const line of tsv.split("\n").slice(1)) {
+    const columns = line.split("\t");
+    if (columns.length < 12) continue;
+    const [level, , , , , , left, top, w, h, , text] = columns;
+    const box = {
+      left: Number(left),
+      top: Number(top),
+      right: Number(left) + Number(w),
+      bottom: Number(top) + Number(h),
+    };
+
+    if (level === "1") {
+      width = box.right || 1;
+      height = box.bottom || 1;
+    } else if (level === "5" && text.trim()) {
+      words.push({ text: text.trim(), box: normalizeBox(box, width, height) });
+    }
+  }
+
+  return words;
+}
+
+/**
+ * Local OCR using the Tesseract CLI, with Poppler's pdftoppm to rasterize
+ * pages. Both binaries must be on PATH (or set TESSERACT_PATH / PDFTOPPM_PATH).
+ * Runs entirely on the host, so it works without network access.
+ */
+export function createTesseractOcrProvider(): OcrProvider {
+  const tesseractBin = process.env.TESSERACT_PATH || "tesseract";
+  const pdftoppmBin = process.env.PDFTOPPM_PATH || "pdftoppm";
+  const language = process.env.TESSERACT_LANG || "eng";
+  const dpi = process.env.TESSERACT_DPI || "300";
+
+  async function recognizePage(pdfPath: string, workDir: string, pageNumber: number): Promise<OcrPage> {
+    const imageBase = path.join(workDir, `page-${pageNumber}`);
+    await execFileAsync(pdftoppmBin, [
+      "-f", String(pageNumber),
+      "-l", String(pageNumber),
+      "-r", dpi,
+      "-png",
+      "-singlefile",
+      pdfPath,
+      imageBase,
+    ]);
+
+    // One pass writes both the text and the word boxes
+    const textBase = path.join(workDir, `text-${pageNumber}`);
+    await execFileAsync(tesseractBin, [
+      `${imageBase}.png`,
+      textBase,
+      "-l", language,
+      "txt",
+      "tsv",
+    ]);
+    const text = await readFile(`${textBase}.txt`, "utf8");
+    const tsv = await readFile(`${textBase}.tsv`, "utf8");
+
+    return {
+      pageNumber,
+      text,
+      source: "tesseract",
+      words: locateWords(text, parseTsvWords(tsv)),
+    };
+  }
+
+  return {
+    name: "tesseract",
+
+    async recognize(input) {
+      const data = input.data ?? (await getStorage().get(input.key));
+      const pageCount = input.pageCount ?? (await extractNativeText(data)).pageCount;
+      const pageNumbers =
+        input.pages ?? Array.from({ length: pageCount }, (_, i) => i + 1);
+
+      const workDir = await mkdtemp(path.join(tmpdir(), "chronos-ocr-"));
+      try {
+        const pdfPath = path.join(workDir, "input.pdf");
+        await writeFile(pdfPath, data);
+
+        // Sequential on purpose: tesseract already uses every core per page
+        const pages: OcrPage[] = [];
+        for (const pageNumber of pageNumbers) {
+          pages.push(await recognizePage(pdfPath, workDir, pageNumber));
+          input.onProgress?.(pages.length);
+        }
+        return pages;
+      } finally {
+        await rm(workDir, { recursive: true, force: true });
+      }
+    },
+  };
+}
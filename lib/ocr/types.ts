@@ -0,0 +1,37 @@
+import type { PageWord } from "@/lib/types/chronology";
+
+/** Where a page's text came from */
+export type TextSource = "native" | "vision" | "tesseract";
+
+/** Text recognized for a single PDF page */
+export interface OcrPage {
+  /** 1-based page number in the PDF */
+  pageNumber: number;
+  text: string;
+  source: TextSource;
+  /** Where each word of `text` is drawn, when the source reports geometry */
+  words?: PageWord[];
+}
+
+export interface OcrInput {
+  documentId: string;
+  /** Processing run; scopes any intermediate output the provider writes */
+  runId: string;
+  /** Storage key of the PDF */
+  key: string;
+  /** PDF bytes, when the caller already has them */
+  data?: Buffer;
+  /** Total pages in the PDF, when known */
+  pageCount?: number;
+  /** Restrict recognition to these 1-based page numbers (all pages if omitted) */
+  pages?: number[];
+  /** Called with the number of pages recognized so far, as work completes */
+  onProgress?: (pagesDone: number) => void;
+}
+
+/** An OCR engine that turns PDF pages into text */
+export interface OcrProvider {
+  /** Provider identifier, recorded as the page's text source */
+  readonly name: Exclude<TextSource, "native">;
+  recognize(input: OcrInput): Promise<OcrPage[]>;
+}
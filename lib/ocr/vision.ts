@@ -0,0 +1,192 @@
+import { ImageAnnotatorClient, protos } from "@google-cloud/vision";
+import { gcpClientOptions } from "@/lib/gcp";
+import { getStorage } from "@/lib/storage";
+import { locateWords, normalizeBox } from "./layout";
+import type { RecognizedWord } from "./layout";
+import type { OcrInput, OcrPage, OcrProvider } from "./types";
+
+type AnnotateImageResponse =
+  protos.google.cloud.vision.v1.IAnnotateImageResponse;
+type BoundingPoly = protos.google.cloud.vision.v1.IBoundingPoly;
+
+/** Per-run output location, so concurrent runs never share files */
+function outputPrefixFor(input: OcrInput): string {
+  return `vision-output/${input.documentId}/${input.runId}/`;
+}
+
+/** Vision's synchronous file API accepts at most 5 pages per request */
+const SYNC_PAGE_LIMIT = 5;
+
+/**
+ * A word's box on the page. PDF responses give normalized vertices; image
+ * responses give pixels, normalized here by the page size.
+ */
+function toBoundingBox(
+  poly: BoundingPoly | null | undefined,
+  width: number,
+  height: number
+): RecognizedWord["box"] | null {
+  const normalized = (poly?.normalizedVertices ?? []).length > 0;
+  const vertices = normalized ? poly!.normalizedVertices! : poly?.vertices ?? [];
+  if (vertices.length === 0) return null;
+
+  const xs = vertices.map((v) => v.x ?? 0);
+  const ys = vertices.map((v) => v.y ?? 0);
+  return normalizeBox(
+    {
+      left: Math.min(...xs),
+      top: Math.min(...ys),
+      right: Math.max(...xs),
+      bottom: Math.max(...ys),
+    },
+    normalized ? 1 : width || 1,
+    normalized ? 1 : height || 1
+  );
+}
+
+/** The words of a response with their boxes, in reading order */
+function recognizedWords(response: AnnotateImageResponse): RecognizedWord[] {
+  const words: RecognizedWord[] = [];
+  for (const page of response.fullTextAnnotation?.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs ?? []) {
+        for (const word of paragraph.words ?? []) {
+          const text = (word.symbols ?? []).map((symbol) => symbol.text ?? "").join("");
+          const box = toBoundingBox(word.boundingBox, page.width ?? 0, page.height ?? 0);
+          if (text && box) words.push({ text, box });
+        }
+      }
+    }
+  }
+  return words;
+}
+
+function toOcrPage(response: AnnotateImageResponse, fallbackPageNumber: number): OcrPage {
+  const text = response.fullTextAnnotation?.text ?? "";
+  return {
+    pageNumber: response.context?.pageNumber || fallbackPageNumber,
+    text,
+    source: "vision",
+    words: locateWords(text, recognizedWords(response)),
+  };
+}
+
+/**
+ * Google Cloud Vision DOCUMENT_TEXT_DETECTION.
+ *
+ * Whole documents stored in GCS go through the async batch API, which writes
+ * JSON results back to the bucket. Page subsets (and documents on other
+ * storage backends) are sent inline through the sync API, 5 pages at a time.
+ */
+export function createVisionOcrProvider(): OcrProvider {
+  const client = new ImageAnnotatorClient(gcpClientOptions());
+
+  async function recognizeAsync(input: OcrInput): Promise<OcrPage[]> {
+    const storage = getStorage();
+    const outputPrefix = outputPrefixFor(input);
+    const gcsInputUri = storage.uri(input.key);
+    const gcsOutputUri = storage.uri(outputPrefix);
+
+    try {
+      // The async API only reports completion, not per-page progress
+      const pages = await annotateToBucket(gcsInputUri, gcsOutputUri, outputPrefix);
+      input.onProgress?.(pages.length);
+      return pages;
+    } finally {
+      // Only this run's output is removed
+      await storage.deletePrefix(outputPrefix);
+    }
+  }
+
+  async function annotateToBucket(
+    gcsInputUri: string,
+    gcsOutputUri: string,
+    outputPrefix: string
+  ): Promise<OcrPage[]> {
+    const storage = getStorage();
+    const [operation] = await client.asyncBatchAnnotateFiles({
+      requests: [
+        {
+          inputConfig: {
+            gcsSource: { uri: gcsInputUri },
+            mimeType: "application/pdf",
+          },
+          features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+          outputConfig: {
+            gcsDestination: { uri: gcsOutputUri },
+            batchSize: 100,
+          },
+        },
+      ],
+    });
+
+    console.log("[ocr] Waiting for Vision operation to complete...");
+    await operation.promise();
+
+    // Sort JSON files to ensure consistent page ordering
+    const jsonFiles = (await storage.list(outputPrefix))
+      .filter((name) => name.endsWith(".json"))
+      .sort((a, b) => a.localeCompare(b));
+
+    if (jsonFiles.length === 0) {
+      throw new Error("No OCR output found");
+    }
+
+    const pages: OcrPage[] = [];
+    for (const name of jsonFiles) {
+      const buf = await storage.get(name);
+      const parsed = JSON.parse(buf.toString("utf8"));
+
+      const responses: AnnotateImageResponse[] = parsed.responses ?? [];
+      for (const r of responses) {
+        pages.push(toOcrPage(r, pages.length + 1));
+      }
+    }
+
+    return pages;
+  }
+
+  async function recognizeInline(input: OcrInput, pageNumbers: number[]): Promise<OcrPage[]> {
+    const content = input.data ?? (await getStorage().get(input.key));
+    const pages: OcrPage[] = [];
+
+    for (let i = 0; i < pageNumbers.length; i += SYNC_PAGE_LIMIT) {
+      const chunk = pageNumbers.slice(i, i + SYNC_PAGE_LIMIT);
+      const [result] = await client.batchAnnotateFiles({
+        requests: [
+          {
+            inputConfig: { content, mimeType: "application/pdf" },
+            features: [{ type: "DOCUMENT_TEXT_DETECTION" }],
+            pages: chunk,
+          },
+        ],
+      });
+
+      const responses = result.responses?.[0]?.responses ?? [];
+      responses.forEach((r, index) => pages.push(toOcrPage(r, chunk[index])));
+      input.onProgress?.(pages.length);
+    }
+
+    return pages;
+  }
+
+  return {
+    name: "vision",
+
+    async recognize(input) {
+      const inBucket = getStorage().uri(input.key).startsWith("gs://");
+
+      if (!input.pages && inBucket) {
+        return recognizeAsync(input);
+      }
+
+      const pageNumbers =
+        input.pages ??
+        Array.from({ length: input.pageCount ?? 0 }, (_, i) => i + 1);
+      if (pageNumbers.length === 0) {
+        throw new Error("Page count is required for inline Vision OCR");
+      }
+      return recognizeInline(input, pageNumbers);
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { classificationProblems, isClassificationReply } from "./classificationSchema";
+
+const event = { date: "2024-01-15", summary: "Annual physical", type: "visit" };
+
+/** The problems with a reply holding one event with these fields changed */
+function problemsWith(changes: Record<string, unknown>) {
+  return classificationProblems({ events: [{ ...event, ...changes }] });
+}
+
+describe("classificationProblems", () => {
+  it("accepts a valid reply", () => {
+    const reply = {
+      events: [
+        { ...event, time: "14:30", isPrimary: true, confidence: 0.9 },
+        { ...event, date: "2023", datePrecision: "approximate", endDate: "2024", dateText: null },
+      ],
+      documentType: "Progress note",
+    };
+    expect(classificationProblems(reply)).toEqual([]);
+    expect(isClassificationReply(reply)).toBe(true);
+  });
+
+  it.each([
+    [null, "reply: must be a JSON object"],
+    [[], "reply: must be a JSON object"],
+    [{ events: {} }, "events: must be an array"],
+    [{ events: ["visit"] }, "events[0]: must be an object"],
+    [{ events: [], documentType: 3 }, "documentType: must be a string or null"],
+  ])("rejects the reply %j", (reply, problem) => {
+    expect(classificationProblems(reply)).toEqual([problem]);
+  });
+
+  it.each([
+    [{ date: "2023-02-30" }, "events[0].date: must be a real date"],
+    [{ date: "01/15/2024" }, "events[0].date: must be a real date"],
+    [{ datePrecision: "week" }, "events[0].datePrecision: must be one of"],
+    [{ endDate: "2024-01-10" }, "events[0].endDate: must be after date"],
+    [{ time: "2:30 PM tomorrow" }, "events[0].time: must be a time of day"],
+    [{ summary: " " }, "events[0].summary: must be a non-empty string"],
+    [{ type: "surgery" }, "events[0].type: must be one of"],
+    [{ isPrimary: "yes" }, "events[0].isPrimary: must be true or false"],
+    [{ confidence: 2 }, "events[0].confidence: must be a number from 0 to 1"],
+    [{ evidence: 42 }, "events[0].evidence: must be a string"],
+  ])("rejects an event with %j", (changes, problem) => {
+    const problems = problemsWith(changes);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatch(problem);
+  });
+
+  it("reports every problem with an event", () => {
+    expect(problemsWith({ date: "soon", type: "surgery" })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  DATE_PRECISIONS,
+  compareCalendarDates,
+  parseIsoDate,
+} from "@/lib/chronology/calendarDate";
+import { parseTimeOfDay } from "@/lib/chronology/timeOfDay";
+import type { DatePrecision, EventType } from "@/lib/types/chronology";
+
+export const EVENT_TYPES: EventType[] = [
+  "visit",
+  "lab",
+  "imaging",
+  "procedure",
+  "medication",
+  "note",
+  "other",
+];
+
+/** An event as the classification prompt asks for it */
+export interface ReplyEvent {
+  date: string;
+  datePrecision?: DatePrecision;
+  time?: string | null;
+  endDate?: string | null;
+  endDatePrecision?: DatePrecision | null;
+  dateText?: string | null;
+  evidence?: string | null;
+  summary: string;
+  type: EventType;
+  isPrimary?: boolean;
+  confidence?: number;
+}
+
+/** A page's classification as the prompt asks for it */
+export interface ClassificationReply {
+  events: ReplyEvent[];
+  documentType?: string | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || value === null || typeof value === "string";
+}
+
+/** Problems with one event of a reply, prefixed with its path */
+function eventProblems(event: unknown, path: string): string[] {
+  if (!isRecord(event)) return [`${path}: must be an object`];
+  const problems: string[] = [];
+
+  const precision = event.datePrecision;
+  if (precision !== undefined && !DATE_PRECISIONS.includes(precision as DatePrecision)) {
+    problems.push(`${path}.datePrecision: must be one of ${DATE_PRECISIONS.join(", ")}`);
+  }
+  // Dates must be real calendar days; "2023-02-30" would otherwise be stored as-is
+  const date =
+    typeof event.date === "string"
+      ? parseIsoDate(event.date, precision === "approximate")
+      : null;
+  if (!date) {
+    problems.push(`${path}.date: must be a real date as YYYY-MM-DD, YYYY-MM or YYYY`);
+  }
+
+  const endPrecision = event.endDatePrecision;
+  if (
+    endPrecision !== undefined &&
+    endPrecision !== null &&
+    !DATE_PRECISIONS.includes(endPrecision as DatePrecision)
+  ) {
+    problems.push(`${path}.endDatePrecision: must be one of ${DATE_PRECISIONS.join(", ")}`);
+  }
+  if (event.endDate !== undefined && event.endDate !== null) {
+    const endDate =
+      typeof event.endDate === "string"
+        ? parseIsoDate(event.endDate, endPrecision === "approximate")
+        : null;
+    if (!endDate) {
+      problems.push(`${path}.endDate: must be a real date as YYYY-MM-DD, YYYY-MM or YYYY`);
+    } else if (date && compareCalendarDates(date, endDate) >= 0) {
+      problems.push(`${path}.endDate: must be after date`);
+    }
+  }
+
+  if (event.time !== undefined && event.time !== null) {
+    if (typeof event.time !== "string" || !parseTimeOfDay(event.time)) {
+      problems.push(`${path}.time: must be a time of day as HH:MM (24-hour)`);
+    }
+  }
+
+  if (typeof event.summary !== "string" || !event.summary.trim()) {
+    problems.push(`${path}.summary: must be a non-empty string`);
+  }
+  if (!EVENT_TYPES.includes(event.type as EventType)) {
+    problems.push(`${path}.type: must be one of ${EVENT_TYPES.join(", ")}`);
+  }
+  if (event.isPrimary !== undefined && typeof event.isPrimary !== "boolean") {
+    problems.push(`${path}.isPrimary: must be true or false`);
+  }
+  if (
+    event.confidence !== undefined &&
+    (typeof event.confidence !== "number" || event.confidence < 0 || event.confidence > 1)
+  ) {
+    problems.push(`${path}.confidence: must be a number from 0 to 1`);
+  }
+  if (!isOptionalString(event.dateText)) {
+    problems.push(`${path}.dateText: must be a string`);
+  }
+  if (!isOptionalString(event.evidence)) {
+    problems.push(`${path}.evidence: must be a string`);
+  }
+
+  return problems;
+}
+
+/**
+ * Checks a parsed reply against the classification schema. Returns what is
+ * wrong with it, in terms the model can act on, or an empty list when it is
+ * a valid ClassificationReply.
+ */
+export function classificationProblems(reply: unknown): string[] {
+  if (!isRecord(reply)) return ["reply: must be a JSON object"];
+  if (!Array.isArray(reply.events)) return ["events: must be an array"];
+
+  const problems = reply.events.flatMap((event, i) => eventProblems(event, `events[${i}]`));
+  if (!isOptionalString(reply.documentType)) {
+    problems.push("documentType: must be a string or null");
+  }
+  return problems;
+}
+
+/** Whether a parsed reply, or a stored one, matches the classification schema */
+export function isClassificationReply(reply: unknown): reply is ClassificationReply {
+  return classificationProblems(reply).length === 0;
+}
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLlmProvider } from "@/lib/llm";
+import { prisma } from "@/lib/db";
+import { classifyPage, classifyPages } from "./classify";
+import { hashPrompt } from "./llmCache";
+import { getPromptTemplate } from "./prompts";
+import type { PageToClassify } from "./classify";
+
+vi.mock("@/lib/db", () => ({
+  prisma: { llmCache: { findUnique: vi.fn(), upsert: vi.fn() } },
+}));
+
+const findUnique = vi.mocked(prisma.llmCache.findUnique);
+const upsert = vi.mocked(prisma.llmCache.upsert);
+
+const reply = {
+  events: [{ date: "2024-01-15", summary: "Annual physical", type: "visit" }],
+  documentType: "Progress note",
+};
+
+/** A mock provider that always gives `reply`, counting its requests */
+function countingProvider() {
+  const llm = createMockLlmProvider([{ response: reply }]);
+  const generateJson = vi.spyOn(llm, "generateJson");
+  return { llm, generateJson };
+}
+
+function page(pageNumber: number, text: string): PageToClassify {
+  return { pageNumber, text, extractedDates: [] };
+}
+
+beforeEach(() => {
+  findUnique.mockReset().mockResolvedValue(null);
+  upsert.mockReset().mockResolvedValue({} as never);
+});
+
+describe("classification cache", () => {
+  it("keys the cache on the hash of the prompt sent", async () => {
+    const { llm } = countingProvider();
+    const template = getPromptTemplate();
+    const toClassify = page(1, "Seen 01/15/2024 for an annual physical.");
+
+    await classifyPage(toClassify, { llm });
+
+    const key = {
+      promptHash: hashPrompt(template.build(toClassify)),
+      promptVersion: template.version,
+      model: "mock",
+    };
+    expect(findUnique).toHaveBeenCalledWith({ where: { promptHash_promptVersion_model: key } });
+    expect(upsert.mock.calls[0][0].where).toEqual({ promptHash_promptVersion_model: key });
+  });
+
+  it("reuses a cached reply without asking the model", async () => {
+    const { llm, generateJson } = countingProvider();
+    findUnique.mockResolvedValue({ id: "c1", result: reply } as never);
+
+    const result = await classifyPage(page(1, "Seen 01/15/2024."), { llm });
+
+    expect(generateJson).not.toHaveBeenCalled();
+    expect(result.cached).toBe(true);
+    expect(result.events.map((e) => e.date)).toEqual(["2024-01-15"]);
+  });
+
+  it("gives the same text a different key under another date order", async () => {
+    const template = getPromptTemplate();
+    const text = "Seen 03/04/2024.";
+    expect(hashPrompt(template.build({ ...page(1, text), dateOrder: "mdy" }))).not.toBe(
+      hashPrompt(template.build({ ...page(1, text), dateOrder: "dmy" }))
+    );
+  });
+});
+
+describe("classifyPages", () => {
+  it("sends pages with the same prompt once", async () => {
+    const { llm, generateJson } = countingProvider();
+    const results = await classifyPages(
+      [page(1, "Vitals stable."), page(2, "Vitals stable."), page(3, "Vitals stable!")],
+      undefined,
+      { llm }
+    );
+
+    expect(generateJson).toHaveBeenCalledTimes(2);
+    expect(results.map((r) => [r.pageNumber, !!r.cached])).toEqual([
+      [1, false],
+      [2, true],
+      [3, false],
+    ]);
+  });
+});
@@ -0,0 +1,445 @@
+import { parseIsoDate, toIsoDate } from "@/lib/chronology/calendarDate";
+import { parseTimeOfDay } from "@/lib/chronology/timeOfDay";
+import { prisma } from "@/lib/db";
+import { getLlmProvider, parseJsonReply } from "@/lib/llm";
+import type { LlmProvider, LlmUsage } from "@/lib/llm";
+import type {
+  DateLanguage,
+  DateOrder,
+  DatePrecision,
+  EventType,
+  ExtractedDate,
+} from "@/lib/types/chronology";
+import { classificationProblems, isClassificationReply } from "./classificationSchema";
+import type { ClassificationReply } from "./classificationSchema";
+import { getPromptTemplate } from "./prompts";
+import { hashPrompt, readCachedClassification, writeCachedClassification } from "./llmCache";
+import type { LlmCacheKey } from "./llmCache";
+
+/** Pages classified in parallel */
+const BATCH_SIZE = 5;
+
+/** Attempts per page before it is reported as failed */
+const MAX_PAGE_ATTEMPTS = 3;
+
+/** Times a page's invalid reply is sent back to be corrected before it fails */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Most schema problems quoted back to the model or recorded on a failed page */
+const MAX_REPORTED_PROBLEMS = 10;
+
+/** Longest date text or evidence quote kept from a response */
+const MAX_QUOTE_CHARS = 300;
+
+export interface PageToClassify {
+  pageNumber: number;
+  pageId?: string;
+  text: string;
+  extractedDates: ExtractedDate[];
+  /** How the document writes numeric dates, when known */
+  dateOrder?: DateOrder;
+  /** The document's language, when known */
+  language?: DateLanguage;
+}
+
+export interface ExtractedEvent {
+  date: string;
+  datePrecision: DatePrecision;
+  /** Time of day (HH:MM, 24-hour) when the page gives one */
+  time?: string;
+  /** End of a span (admission to discharge, course of treatment) */
+  endDate?: string;
+  endDatePrecision?: DatePrecision;
+  summary: string;
+  type: EventType;
+  isPrimary: boolean;
+  confidence: number;
+  /** The date as written on the page, or the relative expression it came from */
+  rawDateText?: string;
+  /** How the date was worked out, when it came from a relative expression */
+  dateReasoning?: string;
+  /** The sentence or line on the page that supports the event, verbatim */
+  evidenceText?: string;
+}
+
+export interface PageClassificationResult {
+  pageNumber: number;
+  pageId?: string;
+  events: ExtractedEvent[];
+  documentType: string | null;
+  /** Model that classified the page */
+  model?: string;
+  /** Prompt version the page was classified with */
+  promptVersion?: string;
+  /** Tokens spent on the page, across attempts, when the provider reports them */
+  usage?: LlmUsage;
+  /** Set when the classification was reused rather than requested */
+  cached?: boolean;
+  /** Set when the page could not be classified */
+  error?: string;
+}
+
+export interface ClassifyOptions {
+  /** Provider to classify with; the configured one by default */
+  llm?: LlmProvider;
+  /** Prompt version to classify with; the deployment's default otherwise */
+  promptVersion?: string;
+  /** Ask the model again even when a cached classification exists */
+  forceRefresh?: boolean;
+}
+
+/**
+ * Links an event to the relative expression its date came from, so reviewers
+ * can see how it was worked out. Dates also written out on the page are left
+ * alone.
+ */
+function inferredSource(
+  dates: ExtractedDate[],
+  iso: string
+): Pick<ExtractedEvent, "rawDateText" | "dateReasoning"> {
+  const matching = dates.filter((d) => d.iso === iso);
+  const source = matching.find((d) => d.inferred);
+  if (!source || matching.some((d) => !d.inferred)) return {};
+  return { rawDateText: source.raw, dateReasoning: source.inferred!.reasoning };
+}
+
+/**
+ * Asks the model to correct a reply that broke the schema, showing it what
+ * was wrong alongside the original request.
+ */
+function buildRepairPrompt(prompt: string, reply: string, problems: string[]): string {
+  return `Your reply to the request below did not match the required JSON format.
+
+PROBLEMS:
+${problems.map((p) => `- ${p}`).join("\n")}
+
+YOUR REPLY:
+---
+${reply.slice(0, 4000)}
+---
+
+Reply again with ONLY the corrected JSON. Leave out any event you cannot give a valid date and type for.
+
+ORIGINAL REQUEST:
+${prompt}`;
+}
+
+/** Adds a request's token usage to a running total */
+export function addUsage(total: LlmUsage | undefined, usage: LlmUsage | null): LlmUsage | undefined {
+  if (!usage) return total;
+  return {
+    inputTokens: (total?.inputTokens ?? 0) + usage.inputTokens,
+    outputTokens: (total?.outputTokens ?? 0) + usage.outputTokens,
+  };
+}
+
+/**
+ * Asks the model to classify a page until it replies with JSON matching the
+ * classification schema, sending invalid replies back to be corrected up to
+ * MAX_REPAIR_ATTEMPTS times. Returns the valid reply, or the problems with
+ * the last one. Provider errors are thrown for the caller to retry.
+ */
+async function requestValidReply(
+  llm: LlmProvider,
+  prompt: string,
+  page: PageToClassify,
+  onUsage: (usage: LlmUsage | null) => void
+): Promise<{ reply: ClassificationReply } | { problems: string[] }> {
+  let request = prompt;
+
+  for (let repair = 0; ; repair++) {
+    const { text, usage } = await llm.generateJson(request);
+    onUsage(usage);
+
+    let problems: string[];
+    try {
+      const parsed = parseJsonReply(text);
+      if (isClassificationReply(parsed)) return { reply: parsed };
+      problems = classificationProblems(parsed);
+    } catch (error) {
+      problems = [`reply: not valid JSON (${error instanceof Error ? error.message : error})`];
+    }
+
+    problems = problems.slice(0, MAX_REPORTED_PROBLEMS);
+    console.warn(
+      `[classify] Page ${page.pageNumber}: invalid reply (repair ${repair}/${MAX_REPAIR_ATTEMPTS}): ${problems.join("; ")}`
+    );
+    if (repair >= MAX_REPAIR_ATTEMPTS) return { problems };
+    request = buildRepairPrompt(prompt, text, problems);
+  }
+}
+
+/** Turns a valid reply, fresh or cached, into the page's classification */
+function classificationFromReply(
+  llm: LlmProvider,
+  parsed: ClassificationReply,
+  page: PageToClassify
+): PageClassificationResult {
+  const events: ExtractedEvent[] = [];
+  for (const e of parsed.events) {
+    const date = parseIsoDate(e.date, e.datePrecision === "approximate");
+    // The schema admits only valid dates; skip any event that slips through
+    if (!date) {
+      console.warn(`[classify] Page ${page.pageNumber}: skipping an event dated "${e.date}"`);
+      continue;
+    }
+    const endDate = e.endDate
+      ? parseIsoDate(e.endDate, e.endDatePrecision === "approximate")
+      : null;
+
+    // A time only makes sense on a full date
+    const time =
+      e.time && date.precision === "day" ? parseTimeOfDay(e.time) : null;
+
+    events.push({
+      date: toIsoDate(date),
+      datePrecision: date.precision,
+      ...(time && { time }),
+      ...(endDate && {
+        endDate: toIsoDate(endDate),
+        endDatePrecision: endDate.precision,
+      }),
+      summary: e.summary,
+      type: e.type,
+      isPrimary: e.isPrimary ?? false,
+      confidence: e.confidence ?? 0.5,
+      ...(e.dateText && { rawDateText: e.dateText.slice(0, MAX_QUOTE_CHARS) }),
+      ...(e.evidence && { evidenceText: e.evidence.slice(0, MAX_QUOTE_CHARS) }),
+      ...inferredSource(page.extractedDates, toIsoDate(date)),
+    });
+  }
+
+  return {
+    pageNumber: page.pageNumber,
+    pageId: page.pageId,
+    events,
+    documentType: parsed.documentType || null,
+    model: llm.model,
+  };
+}
+
+/** Reads a cached classification, treating an unavailable cache as a miss */
+async function readCache(key: LlmCacheKey) {
+  try {
+    return await readCachedClassification(key);
+  } catch (error) {
+    console.warn("[classify] Could not read the classification cache:", error);
+    return null;
+  }
+}
+
+/** Caches a valid reply; failing to is logged, not fatal */
+async function writeCache(key: LlmCacheKey, reply: ClassificationReply) {
+  try {
+    await writeCachedClassification(key, reply);
+  } catch (error) {
+    console.warn("[classify] Could not write the classification cache:", error);
+  }
+}
+
+/**
+ * Classifies a single page, reusing the cached reply to the same prompt
+ * (same prompt version, page text and hints) and model unless
+ * `forceRefresh` is set. Otherwise asks the model, retrying transient failures, and caches
+ * the result. Never throws for a page: pages that keep failing, or whose
+ * replies can't be repaired to fit the schema, come back with `error` set.
+ * Throws if the provider or prompt version isn't available.
+ */
+export async function classifyPage(
+  page: PageToClassify,
+  options: ClassifyOptions = {}
+): Promise<PageClassificationResult> {
+  const { llm = getLlmProvider(), forceRefresh = false } = options;
+  const template = getPromptTemplate(options.promptVersion);
+  const prompt = template.build(page);
+  const cacheKey: LlmCacheKey = {
+    promptHash: hashPrompt(prompt),
+    promptVersion: template.version,
+    model: llm.model,
+  };
+
+  if (!forceRefresh) {
+    const cached = await readCache(cacheKey);
+    if (cached) {
+      return {
+        ...classificationFromReply(llm, cached, page),
+        promptVersion: template.version,
+        cached: true,
+      };
+    }
+  }
+
+  let lastError: unknown;
+  let usage: LlmUsage | undefined;
+  const onUsage = (requestUsage: LlmUsage | null) => {
+    usage = addUsage(usage, requestUsage);
+  };
+
+  for (let attempt = 1; attempt <= MAX_PAGE_ATTEMPTS; attempt++) {
+    try {
+      const validated = await requestValidReply(llm, prompt, page, onUsage);
+      if ("problems" in validated) {
+        return {
+          pageNumber: page.pageNumber,
+          pageId: page.pageId,
+          events: [],
+          documentType: null,
+          model: llm.model,
+          promptVersion: template.version,
+          usage,
+          error: `Invalid classification after ${MAX_REPAIR_ATTEMPTS + 1} replies: ${validated.problems.join("; ")}`,
+        };
+      }
+      await writeCache(cacheKey, validated.reply);
+      return {
+        ...classificationFromReply(llm, validated.reply, page),
+        promptVersion: template.version,
+        usage,
+      };
+    } catch (error) {
+      lastError = error;
+      console.error(
+        `Error classifying page ${page.pageNumber} (attempt ${attempt}/${MAX_PAGE_ATTEMPTS}):`,
+        error
+      );
+      if (attempt < MAX_PAGE_ATTEMPTS) {
+        await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+  }
+
+  return {
+    pageNumber: page.pageNumber,
+    pageId: page.pageId,
+    events: [],
+    documentType: null,
+    model: llm.model,
+    promptVersion: template.version,
+    usage,
+    error: String(lastError),
+  };
+}
+
+/**
+ * Classifies pages in parallel batches (see classifyPage). Pages that would
+ * be sent the same prompt share one classification, so exact duplicates
+ * cost a single request. `onBatch` is called with each batch's results as soon as it
+ * finishes.
+ */
+export async function classifyPages(
+  pages: PageToClassify[],
+  onBatch?: (results: PageClassificationResult[]) => Promise<void>,
+  options: ClassifyOptions = {}
+): Promise<PageClassificationResult[]> {
+  const llm = options.llm ?? getLlmProvider();
+  const template = getPromptTemplate(options.promptVersion);
+  const results: PageClassificationResult[] = [];
+  const byPrompt = new Map<string, Promise<PageClassificationResult>>();
+
+  const classify = async (page: PageToClassify): Promise<PageClassificationResult> => {
+    const promptHash = hashPrompt(template.build(page));
+    const earlier = byPrompt.get(promptHash);
+    if (!earlier) {
+      const result = classifyPage(page, { ...options, llm, promptVersion: template.version });
+      byPrompt.set(promptHash, result);
+      return result;
+    }
+    // A page with the same prompt was classified in this call; reuse its result
+    const result = await earlier;
+    return {
+      ...result,
+      pageNumber: page.pageNumber,
+      pageId: page.pageId,
+      usage: undefined,
+      cached: !result.error,
+    };
+  };
+
+  for (let i = 0; i < pages.length; i += BATCH_SIZE) {
+    const batch = pages.slice(i, i + BATCH_SIZE);
+    console.log(`[classify] Processing batch ${i / BATCH_SIZE + 1}, pages ${i + 1}-${i + batch.length}`);
+    const batchResults = await Promise.all(batch.map(classify));
+    results.push(...batchResults);
+    if (onBatch) await onBatch(batchResults);
+  }
+
+  const cachedPages = results.filter((r) => r.cached).length;
+  if (cachedPages > 0) {
+    console.log(`[classify] Reused cached classifications for ${cachedPages} of ${results.length} pages`);
+  }
+
+  const usage = results.reduce<LlmUsage | undefined>(
+    (total, r) => addUsage(total, r.usage ?? null),
+    undefined
+  );
+  if (usage) {
+    console.log(
+      `[classify] ${llm.name}/${llm.model} with prompt ${template.version} used ${usage.inputTokens} input and ${usage.outputTokens} output tokens`
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Saves events from successfully classified pages and marks those pages as
+ * analyzed, replacing events an earlier classification of the same pages
+ * created (events reviewers edited are kept). Failed pages are left
+ * unanalyzed so a later run retries them. Returns the number of events
+ * created.
+ */
+export async function saveClassificationResults(
+  documentId: string,
+  results: PageClassificationResult[]
+): Promise<number> {
+  const succeeded = results.filter((r) => !r.error);
+
+  const eventsToCreate = succeeded.flatMap((result) =>
+    result.events.map((event) => ({
+      documentId,
+      pageId: result.pageId || null,
+      date: event.date,
+      datePrecision: event.datePrecision,
+      time: event.time ?? null,
+      endDate: event.endDate ?? null,
+      endDatePrecision: event.endDatePrecision ?? null,
+      rawDateText: event.rawDateText ?? null,
+      dateReasoning: event.dateReasoning ?? null,
+      evidenceText: event.evidenceText ?? null,
+      summary: event.summary,
+      type: event.type,
+      isPrimary: event.isPrimary,
+      confidence: event.confidence,
+      source: "llm",
+      llmModel: result.model ?? null,
+      promptVersion: result.promptVersion ?? null,
+    }))
+  );
+
+  const analyzedPageIds = succeeded
+    .map((r) => r.pageId)
+    .filter((id): id is string => !!id);
+
+  // Failed pages stay unanalyzed, with the reason kept for review
+  const failed = results.filter((r) => r.error && r.pageId);
+
+  await prisma.$transaction([
+    // Re-classifying a page replaces its events rather than adding to them
+    prisma.dateEvent.deleteMany({
+      where: { pageId: { in: analyzedPageIds }, source: "llm", userEdited: false },
+    }),
+    prisma.dateEvent.createMany({ data: eventsToCreate }),
+    prisma.page.updateMany({
+      where: { id: { in: analyzedPageIds } },
+      data: { llmAnalyzed: true, llmError: null },
+    }),
+    ...failed.map((r) =>
+      prisma.page.update({
+        where: { id: r.pageId },
+        data: { llmError: r.error },
+      })
+    ),
+  ]);
+
+  return eventsToCreate.length;
+}
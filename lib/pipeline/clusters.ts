@@ -0,0 +1,181 @@
+import {
+  applyInheritance,
+  buildClusters,
+  compareIsoDates,
+  selectDateOfService,
+} from "@/lib/chronology";
+import { prisma } from "@/lib/db";
+import { toExtractedDate } from "./dates";
+import { loadSegments } from "./segments";
+import type {
+  ChronologyResult,
+  DateSource,
+  InheritanceStrategy,
+  PageDateOfService,
+} from "@/lib/types/chronology";
+
+/**
+ * A page's own date of service: its primary event's date once the page has
+ * been classified (as a reviewer left it, if they edited it), otherwise the
+ * best of its stored dates. Confidence is the event's, or the highest of
+ * the page's dates with the chosen date.
+ */
+function ownDateOfService(page: {
+  events: { date: string; confidence: number }[];
+  extractedDates: Parameters<typeof toExtractedDate>[0][];
+}): Pick<PageDateOfService, "dateOfService" | "dateSource" | "dateConfidence"> {
+  const [primary] = page.events;
+  if (primary) {
+    return {
+      dateOfService: primary.date,
+      dateSource: "llm",
+      dateConfidence: primary.confidence,
+    };
+  }
+
+  const dates = page.extractedDates.map(toExtractedDate);
+  const heuristic = selectDateOfService(dates);
+  if (heuristic) {
+    return {
+      dateOfService: heuristic.date,
+      dateSource: "heuristic",
+      dateConfidence: Math.max(
+        ...dates.filter((d) => d.iso === heuristic.date).map((d) => d.confidence)
+      ),
+    };
+  }
+
+  return { dateOfService: null, dateSource: "none" };
+}
+
+/**
+ * Determines every page's date of service from its events and stored dates,
+ * lets undated pages inherit from a page of the same record (per the stored
+ * segments) by the document's inheritance strategy, and stores each page's
+ * date along with the document's clusters, replacing earlier ones.
+ */
+export async function clusterDocument(documentId: string): Promise<ChronologyResult> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { inheritanceStrategy: true, maxInheritanceDistance: true },
+  });
+  const pages = await prisma.page.findMany({
+    where: { documentId },
+    orderBy: { pageNumber: "asc" },
+    select: {
+      id: true,
+      pageNumber: true,
+      events: {
+        where: { isPrimary: true, duplicateOfId: null },
+        orderBy: { confidence: "desc" },
+        select: { date: true, confidence: true },
+      },
+      extractedDates: { orderBy: { offset: "asc" } },
+    },
+  });
+
+  const ownDates: (PageDateOfService & { id: string })[] = pages.map((page) => ({
+    id: page.id,
+    pageNumber: page.pageNumber,
+    ...ownDateOfService(page),
+  }));
+  const dated = applyInheritance(ownDates, {
+    strategy: document.inheritanceStrategy as InheritanceStrategy,
+    maxDistance: document.maxInheritanceDistance,
+    segments: await loadSegments(documentId),
+  });
+  const clusters = buildClusters(dated);
+
+  await prisma.$transaction([
+    ...dated.map((page) =>
+      prisma.page.update({
+        where: { id: page.id },
+        data: {
+          dateOfService: page.dateOfService,
+          dateSource: page.dateSource,
+          dateConfidence: page.dateConfidence ?? null,
+          inheritedFrom: page.inheritedFrom ?? null,
+          inheritanceStrategy: page.inheritanceStrategy ?? null,
+        },
+      })
+    ),
+    prisma.pageCluster.deleteMany({ where: { documentId } }),
+    prisma.pageCluster.createMany({
+      data: clusters.map((cluster) => ({ documentId, ...cluster })),
+    }),
+  ]);
+
+  console.log(
+    `[cluster] ${clusters.length} clusters from ${pages.length} pages of document ${documentId}`
+  );
+
+  return loadChronology(documentId);
+}
+
+/** Reads a document's stored page dates, clusters and segments */
+export async function loadChronology(documentId: string): Promise<ChronologyResult> {
+  const [pages, clusters, segments] = await Promise.all([
+    prisma.page.findMany({
+      where: { documentId },
+      orderBy: { pageNumber: "asc" },
+      select: {
+        pageNumber: true,
+        hasDate: true,
+        dateOfService: true,
+        dateSource: true,
+        dateConfidence: true,
+        inheritedFrom: true,
+        inheritanceStrategy: true,
+      },
+    }),
+    prisma.pageCluster.findMany({
+      where: { documentId },
+      orderBy: { primaryPage: "asc" },
+    }),
+    loadSegments(documentId),
+  ]);
+
+  const pageDates: PageDateOfService[] = pages.map((page) => ({
+    pageNumber: page.pageNumber,
+    dateOfService: page.dateOfService,
+    dateSource: page.dateSource as DateSource,
+    ...(page.dateConfidence !== null && { dateConfidence: page.dateConfidence }),
+    ...(page.inheritedFrom !== null && { inheritedFrom: page.inheritedFrom }),
+    ...(page.inheritanceStrategy && {
+      inheritanceStrategy: page.inheritanceStrategy as Exclude<InheritanceStrategy, "none">,
+    }),
+  }));
+  const inheritedBy = (strategy: InheritanceStrategy) =>
+    pageDates.filter((p) => p.inheritanceStrategy === strategy).length;
+
+  return {
+    pages: pageDates,
+    clusters: clusters
+      .map((cluster) => ({
+        id: cluster.id,
+        dateOfService: cluster.dateOfService,
+        pages: cluster.pages,
+        primaryPage: cluster.primaryPage,
+        ...(cluster.documentType && { documentType: cluster.documentType }),
+      }))
+      .sort((a, b) => compareIsoDates(a.dateOfService, b.dateOfService)),
+    segments,
+    undatedPages: pageDates
+      .filter((p) => !p.dateOfService)
+      .map((p) => p.pageNumber),
+    stats: {
+      totalPages: pages.length,
+      pagesWithDates: pages.filter((p) => p.hasDate).length,
+      pagesWithDOS: pageDates.filter(
+        (p) => p.dateOfService && p.dateSource !== "inherited"
+      ).length,
+      pagesInherited: pageDates.filter((p) => p.dateSource === "inherited").length,
+      inheritedByStrategy: {
+        forward: inheritedBy("forward"),
+        backward: inheritedBy("backward"),
+        nearest: inheritedBy("nearest"),
+      },
+      llmClassified: pageDates.filter((p) => p.dateSource === "llm").length,
+    },
+  };
+}
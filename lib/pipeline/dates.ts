@@ -0,0 +1,337 @@
+import type { Prisma } from "@prisma/client";
+import {
+  getDatesWithContext,
+  resolveDateOrder,
+  resolveLanguage,
+} from "@/lib/chronology";
+import { prisma } from "@/lib/db";
+import { organizationContextRules } from "./rules";
+import type {
+  BoundingBox,
+  DateClassification,
+  DateLanguage,
+  DateOrder,
+  DatePolicy,
+  DatePrecision,
+  ExtractedDate,
+  LanguagePolicy,
+  PageLayout,
+  PagePosition,
+  PageRegion,
+  PageResult,
+  StoredDate,
+} from "@/lib/types/chronology";
+
+/** How a document's dates are read */
+export interface DocumentDateOptions {
+  order: DateOrder;
+  language: DateLanguage;
+}
+
+/** Whether a stored JSON value has a bounding box's coordinates */
+function isBoundingBox(value: Prisma.JsonValue): value is Prisma.JsonObject & BoundingBox {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  return (["left", "top", "right", "bottom"] as const).every(
+    (side) => typeof value[side] === "number"
+  );
+}
+
+/** Whether a stored JSON value is a page layout, every word with its offsets and box */
+function isPageLayout(value: Prisma.JsonValue): value is Prisma.JsonObject & PageLayout {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const { words } = value;
+  return (
+    Array.isArray(words) &&
+    words.every(
+      (word) =>
+        typeof word === "object" &&
+        word !== null &&
+        !Array.isArray(word) &&
+        typeof word.start === "number" &&
+        typeof word.end === "number" &&
+        isBoundingBox(word.box ?? null)
+    )
+  );
+}
+
+/** A stored page's word geometry, if its text source reported any */
+export function pageLayout(page: { layout?: Prisma.JsonValue }): PageLayout | undefined {
+  return page.layout && isPageLayout(page.layout) ? page.layout : undefined;
+}
+
+type ExtractedDateRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.extractedDate.findUnique>>
+>;
+
+/** Converts a stored date back to the extractor's form */
+export function toExtractedDate(row: ExtractedDateRecord): ExtractedDate {
+  return {
+    raw: row.raw,
+    iso: row.iso,
+    precision: row.precision as DatePrecision,
+    ...(row.time && { time: row.time }),
+    ...(row.endDate && {
+      end: { iso: row.endDate, precision: row.endDatePrecision as DatePrecision },
+    }),
+    context: { before: row.contextBefore, after: row.contextAfter },
+    position: row.position as PagePosition,
+    ...(isBoundingBox(row.box) && {
+      box: { left: row.box.left, top: row.box.top, right: row.box.right, bottom: row.box.bottom },
+    }),
+    ...(row.region && { region: row.region as PageRegion }),
+    offset: row.offset,
+    classification: row.classification as DateClassification,
+    confidence: row.confidence,
+    ...(row.ambiguousMdy &&
+      row.ambiguousDmy && { ambiguous: { mdy: row.ambiguousMdy, dmy: row.ambiguousDmy } }),
+    ...(row.ocrRepaired && { ocrRepaired: row.ocrRepaired }),
+    ...(row.inferredAnchor && {
+      inferred: {
+        anchor: row.inferredAnchor,
+        anchorRaw: row.inferredAnchorRaw ?? "",
+        reasoning: row.inferredReasoning ?? "",
+      },
+    }),
+  };
+}
+
+/** Converts a stored date to its API representation */
+export function toStoredDate(
+  row: ExtractedDateRecord & { page?: { pageNumber: number } | null }
+): StoredDate {
+  return {
+    id: row.id,
+    pageId: row.pageId,
+    ...(row.page && { pageNumber: row.page.pageNumber }),
+    userEdited: row.userEdited,
+    ...toExtractedDate(row),
+  };
+}
+
+/** The ExtractedDate columns for an extracted date */
+function toDateColumns(date: ExtractedDate) {
+  return {
+    raw: date.raw,
+    iso: date.iso,
+    precision: date.precision,
+    time: date.time ?? null,
+    endDate: date.end?.iso ?? null,
+    endDatePrecision: date.end?.precision ?? null,
+    offset: date.offset,
+    contextBefore: date.context.before,
+    contextAfter: date.context.after,
+    position: date.position,
+    box: date.box
+      ? { left: date.box.left, top: date.box.top, right: date.box.right, bottom: date.box.bottom }
+      : undefined,
+    region: date.region ?? null,
+    classification: date.classification,
+    confidence: date.confidence,
+    ambiguousMdy: date.ambiguous?.mdy ?? null,
+    ambiguousDmy: date.ambiguous?.dmy ?? null,
+    ocrRepaired: date.ocrRepaired ?? null,
+    inferredAnchor: date.inferred?.anchor ?? null,
+    inferredAnchorRaw: date.inferred?.anchorRaw ?? null,
+    inferredReasoning: date.inferred?.reasoning ?? null,
+  };
+}
+
+/** A page's dates, before its date of service is determined */
+function toPageResult(
+  page: { pageNumber: number; text: string },
+  dates: ExtractedDate[]
+): PageResult {
+  return {
+    pageNumber: page.pageNumber,
+    text: page.text,
+    extractedDates: dates,
+    dateOfService: null,
+    dateSource: "none",
+  };
+}
+
+/**
+ * Resolves a document's language and date policies against its text. The
+ * language comes first, since it decides the fallback date order.
+ */
+function resolveDocumentDateOptions(
+  document: { datePolicy: string; language: string },
+  texts: string[]
+): DocumentDateOptions {
+  const language = resolveLanguage(document.language as LanguagePolicy, texts);
+  const order = resolveDateOrder(document.datePolicy as DatePolicy, texts, language);
+  return { order, language };
+}
+
+/**
+ * Returns the date order and language recorded at the document's last date
+ * extraction, or resolves them from its policies if it hasn't been through one.
+ */
+export function documentDateOptions(
+  document: {
+    datePolicy: string;
+    dateOrder: string | null;
+    language: string;
+    dateLanguage: string | null;
+  },
+  texts: string[]
+): DocumentDateOptions {
+  if (document.dateOrder && document.dateLanguage) {
+    return {
+      order: document.dateOrder as DateOrder,
+      language: document.dateLanguage as DateLanguage,
+    };
+  }
+  return resolveDocumentDateOptions(document, texts);
+}
+
+/**
+ * Extracts dates from every stored page of a document and stores them,
+ * replacing those of any earlier extraction but keeping reviewer
+ * corrections. Also records which pages have dates, along with the date
+ * order and language the document's policies resolved to. Dates are
+ * classified with the context rules of the document's organization.
+ * Returns the page results in page order.
+ */
+export async function extractDocumentDates(
+  documentId: string
+): Promise<PageResult[]> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { datePolicy: true, language: true, organizationId: true },
+  });
+  const pages = await prisma.page.findMany({
+    where: { documentId },
+    orderBy: { pageNumber: "asc" },
+    select: { id: true, pageNumber: true, text: true, layout: true },
+  });
+
+  const options = resolveDocumentDateOptions(document, pages.map((p) => p.text));
+  console.log(
+    `[dates] Reading numeric dates as ${options.order} (policy: ${document.datePolicy}), ` +
+      `month names as ${options.language} (language: ${document.language})`
+  );
+
+  const rules = await organizationContextRules(document.organizationId);
+
+  // Reviewer corrections carry over to the same text found at the same place
+  const corrections = await prisma.extractedDate.findMany({
+    where: { documentId, userEdited: true },
+  });
+  const correctionKey = (pageId: string, offset: number, raw: string) =>
+    `${pageId}:${offset}:${raw}`;
+  const correctionFor = new Map<string, ExtractedDateRecord>(
+    corrections.map((c) => [correctionKey(c.pageId, c.offset, c.raw), c])
+  );
+
+  const applied = new Set<ExtractedDateRecord>();
+
+  const dateRows: Prisma.ExtractedDateCreateManyInput[] = [];
+  const results = pages.map((page) => {
+    const dates = getDatesWithContext(page.text, {
+      ...options,
+      rules,
+      layout: pageLayout(page),
+    }).map((date) => {
+      const correction = correctionFor.get(correctionKey(page.id, date.offset, date.raw));
+      if (correction) applied.add(correction);
+      const corrected = correction
+        ? {
+            ...date,
+            iso: correction.iso,
+            precision: correction.precision as DatePrecision,
+            classification: correction.classification as DateClassification,
+            confidence: correction.confidence,
+            ambiguous: toExtractedDate(correction).ambiguous,
+          }
+        : date;
+      dateRows.push({
+        documentId,
+        pageId: page.id,
+        ...toDateColumns(corrected),
+        userEdited: !!correction,
+      });
+      return corrected;
+    });
+    return toPageResult(page, dates);
+  });
+
+  // A correction is lost when its date is no longer read from the same text
+  // at the same place, e.g. after a rule change or re-OCR
+  const unapplied = corrections.filter((c) => !applied.has(c));
+  if (unapplied.length > 0) {
+    const pageNumbers = new Map(pages.map((p) => [p.id, p.pageNumber]));
+    console.warn(
+      `[dates] ${unapplied.length} reviewer correction(s) could not be re-applied:`,
+      unapplied.map((c) => ({
+        id: c.id,
+        pageNumber: pageNumbers.get(c.pageId) ?? null,
+        offset: c.offset,
+        raw: c.raw,
+        iso: c.iso,
+        classification: c.classification,
+      }))
+    );
+  }
+
+  const datedIds: string[] = [];
+  const undatedIds: string[] = [];
+  results.forEach((result, i) => {
+    (result.extractedDates.length > 0 ? datedIds : undatedIds).push(pages[i].id);
+  });
+
+  await prisma.$transaction([
+    prisma.extractedDate.deleteMany({ where: { documentId } }),
+    prisma.extractedDate.createMany({ data: dateRows }),
+    prisma.page.updateMany({
+      where: { id: { in: datedIds } },
+      data: { hasDate: true },
+    }),
+    prisma.page.updateMany({
+      where: { id: { in: undatedIds } },
+      data: { hasDate: false },
+    }),
+    prisma.document.update({
+      where: { id: documentId },
+      data: {
+        pagesWithDates: datedIds.length,
+        dateOrder: options.order,
+        dateLanguage: options.language,
+      },
+    }),
+  ]);
+
+  return results;
+}
+
+/**
+ * Returns a document's page results from its stored dates, extracting them
+ * first if that hasn't happened since its pages or date settings last
+ * changed (documents processed before dates were stored included).
+ */
+export async function loadPageResults(documentId: string): Promise<PageResult[]> {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: documentId },
+    select: { dateOrder: true },
+  });
+  const pages = await prisma.page.findMany({
+    where: { documentId },
+    orderBy: { pageNumber: "asc" },
+    select: {
+      pageNumber: true,
+      text: true,
+      hasDate: true,
+      extractedDates: { orderBy: { offset: "asc" } },
+    },
+  });
+
+  const stored = pages.some((p) => p.extractedDates.length > 0);
+  const missing = !stored && pages.some((p) => p.hasDate);
+  if (!document.dateOrder || missing) {
+    return extractDocumentDates(documentId);
+  }
+
+  return pages.map((page) =>
+    toPageResult(page, page.extractedDates.map(toExtractedDate))
+  );
+}
@@ -0,0 +1,154 @@
+import { prisma } from "@/lib/db";
+import { simHashSimilarity } from "@/lib/utils/textHash";
+
+/** 90% simhash similarity threshold for near-duplicates */
+const NEAR_DUPLICATE_THRESHOLD = 0.9;
+
+export interface DuplicateGroup {
+  pages: {
+    id: string;
+    pageNumber: number;
+    similarity: number;
+  }[];
+  primaryPageId: string;
+  primaryPageNumber: number;
+}
+
+interface HashedPage {
+  id: string;
+  pageNumber: number;
+  textHash: string | null;
+  simHash: string | null;
+}
+
+/**
+ * Groups pages into exact duplicates (same textHash) and near-duplicates
+ * (similar simHash). Pages must be in page order; the first page of each
+ * group is its primary.
+ */
+export function findDuplicateGroups(pages: HashedPage[]): {
+  exactDuplicates: DuplicateGroup[];
+  nearDuplicates: DuplicateGroup[];
+} {
+  // Group exact duplicates by textHash
+  const exactHashGroups = new Map<string, typeof pages>();
+  for (const page of pages) {
+    if (!page.textHash) continue;
+    const group = exactHashGroups.get(page.textHash) || [];
+    group.push(page);
+    exactHashGroups.set(page.textHash, group);
+  }
+
+  const exactDuplicates: DuplicateGroup[] = [];
+  for (const [, group] of exactHashGroups) {
+    if (group.length > 1) {
+      // First page is primary
+      const primary = group[0];
+      exactDuplicates.push({
+        primaryPageId: primary.id,
+        primaryPageNumber: primary.pageNumber,
+        pages: group.map((p) => ({
+          id: p.id,
+          pageNumber: p.pageNumber,
+          similarity: 1.0, // Exact match
+        })),
+      });
+    }
+  }
+
+  // Find near-duplicates using simHash
+  // Only check pages not already in exact duplicate groups
+  const pagesInExactGroups = new Set<string>();
+  for (const group of exactDuplicates) {
+    for (const page of group.pages) {
+      pagesInExactGroups.add(page.id);
+    }
+  }
+
+  const remainingPages = pages.filter((p) => !pagesInExactGroups.has(p.id));
+  const nearDuplicateGroups: Map<string, typeof pages> = new Map();
+  const processedPages = new Set<string>();
+
+  for (let i = 0; i < remainingPages.length; i++) {
+    const pageA = remainingPages[i];
+    if (processedPages.has(pageA.id) || !pageA.simHash) continue;
+
+    const group = [pageA];
+    processedPages.add(pageA.id);
+
+    for (let j = i + 1; j < remainingPages.length; j++) {
+      const pageB = remainingPages[j];
+      if (processedPages.has(pageB.id) || !pageB.simHash) continue;
+
+      const similarity = simHashSimilarity(pageA.simHash, pageB.simHash);
+      if (similarity >= NEAR_DUPLICATE_THRESHOLD) {
+        group.push(pageB);
+        processedPages.add(pageB.id);
+      }
+    }
+
+    if (group.length > 1) {
+      nearDuplicateGroups.set(pageA.id, group);
+    }
+  }
+
+  const nearDuplicates: DuplicateGroup[] = [];
+  for (const [primaryId, group] of nearDuplicateGroups) {
+    const primary = group[0];
+    nearDuplicates.push({
+      primaryPageId: primaryId,
+      primaryPageNumber: primary.pageNumber,
+      pages: group.map((p) => ({
+        id: p.id,
+        pageNumber: p.pageNumber,
+        similarity:
+          p.id === primaryId
+            ? 1.0
+            : simHashSimilarity(primary.simHash!, p.simHash!),
+      })),
+    });
+  }
+
+  return { exactDuplicates, nearDuplicates };
+}
+
+/**
+ * Detects duplicate pages and links each one to its group's primary page.
+ * Pages a reviewer has already looked at are left untouched.
+ * Returns the number of pages flagged.
+ */
+export async function detectDuplicatePages(documentId: string): Promise<number> {
+  const pages = await prisma.page.findMany({
+    where: { documentId },
+    orderBy: { pageNumber: "asc" },
+    select: {
+      id: true,
+      pageNumber: true,
+      textHash: true,
+      simHash: true,
+      isDuplicateReviewed: true,
+    },
+  });
+
+  const reviewed = new Set(
+    pages.filter((p) => p.isDuplicateReviewed).map((p) => p.id)
+  );
+  const { exactDuplicates, nearDuplicates } = findDuplicateGroups(pages);
+
+  const updates = [...exactDuplicates, ...nearDuplicates].flatMap((group) =>
+    group.pages
+      .filter((p) => p.id !== group.primaryPageId && !reviewed.has(p.id))
+      .map((p) =>
+        prisma.page.update({
+          where: { id: p.id },
+          data: {
+            duplicateOfId: group.primaryPageId,
+            duplicateConfidence: p.similarity,
+          },
+        })
+      )
+  );
+
+  await prisma.$transaction(updates);
+  return updates.length;
+}
@@ -0,0 +1,84 @@
+import { lineBoxesForRange } from "@/lib/chronology/layout";
+import { prisma } from "@/lib/db";
+import { pageLayout } from "./dates";
+import type { Highlight } from "@/lib/types/chronology";
+
+/** A span of page text to highlight */
+interface TextRange {
+  kind: Highlight["kind"];
+  start: number;
+  end: number;
+}
+
+/**
+ * Finds a quote in page text, ignoring case and differences in whitespace
+ * (OCR breaks lines where the LLM's quote has spaces). Returns every match.
+ */
+function findQuote(text: string, quote: string): { start: number; end: number }[] {
+  const words = quote.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const escaped = words.map((w) => w.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const re = new RegExp(escaped.join(String.raw`\s+`), "gi");
+  const ranges: { start: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text)) !== null) {
+    ranges.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return ranges;
+}
+
+/**
+ * Works out what to highlight for an event on its page: every place its date
+ * is written, and the sentence supporting it. The date is found by the text
+ * the LLM quoted, or failing that among the page's stored dates by the
+ * event's date. Returns null if the event doesn't
+ * exist, and no highlights for events without a page.
+ */
+export async function eventHighlights(eventId: string): Promise<Highlight[] | null> {
+  const event = await prisma.dateEvent.findUnique({
+    where: { id: eventId },
+    include: {
+      page: {
+        select: {
+          pageNumber: true,
+          text: true,
+          layout: true,
+          extractedDates: { where: { inferredAnchor: null } },
+        },
+      },
+    },
+  });
+  if (!event) return null;
+  if (!event.page) return [];
+
+  const { text, pageNumber } = event.page;
+  const layout = pageLayout(event.page);
+  const ranges: TextRange[] = [];
+
+  const quoted = event.rawDateText ? findQuote(text, event.rawDateText) : [];
+  if (quoted.length > 0) {
+    ranges.push(...quoted.map((r) => ({ kind: "date" as const, ...r })));
+  } else {
+    for (const date of event.page.extractedDates) {
+      if (date.iso === event.date || (event.endDate && date.endDate === event.endDate)) {
+        ranges.push({ kind: "date", start: date.offset, end: date.offset + date.raw.length });
+      }
+    }
+  }
+
+  if (event.evidenceText) {
+    const [evidence] = findQuote(text, event.evidenceText);
+    if (evidence) ranges.push({ kind: "evidence", ...evidence });
+  }
+
+  // Reading order, so next/previous walks down the page
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .map((range) => ({
+      kind: range.kind,
+      pageNumber,
+      text: text.slice(range.start, range.end),
+      boxes: layout ? lineBoxesForRange(layout, range.start, range.end) : [],
+    }));
+}
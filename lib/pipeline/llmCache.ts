@@ -0,0 +1,75 @@
+import { createHash } from "crypto";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { classificationProblems, isClassificationReply } from "./classificationSchema";
+import type { ClassificationReply, ReplyEvent } from "./classificationSchema";
+
+/** Identifies a classification that can be reused */
+export interface LlmCacheKey {
+  /** SHA-256 of the exact prompt sent for the page (see hashPrompt) */
+  promptHash: string;
+  promptVersion: string;
+  model: string;
+}
+
+/**
+ * Hashes a rendered prompt. The prompt holds the page's exact text along
+ * with everything else the model is told about it (date order, language,
+ * the dates found on it), so two pages share a classification only when
+ * the model would be asked the same thing.
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash("sha256").update(prompt).digest("hex");
+}
+
+function toEventJson(event: ReplyEvent): Prisma.InputJsonObject {
+  return {
+    date: event.date,
+    datePrecision: event.datePrecision ?? null,
+    time: event.time ?? null,
+    endDate: event.endDate ?? null,
+    endDatePrecision: event.endDatePrecision ?? null,
+    dateText: event.dateText ?? null,
+    evidence: event.evidence ?? null,
+    summary: event.summary,
+    type: event.type,
+    isPrimary: event.isPrimary ?? null,
+    confidence: event.confidence ?? null,
+  };
+}
+
+/**
+ * Looks up the model's earlier reply to the same prompt. Entries that no
+ * longer match the classification schema are treated as misses.
+ */
+export async function readCachedClassification(
+  key: LlmCacheKey
+): Promise<ClassificationReply | null> {
+  const entry = await prisma.llmCache.findUnique({
+    where: { promptHash_promptVersion_model: key },
+  });
+  if (!entry) return null;
+  if (!isClassificationReply(entry.result)) {
+    console.warn(
+      `[llmCache] Ignoring an invalid cache entry ${entry.id}: ${classificationProblems(entry.result).join("; ")}`
+    );
+    return null;
+  }
+  return entry.result;
+}
+
+/** Stores the model's valid reply to a prompt for later pages that send it again */
+export async function writeCachedClassification(
+  key: LlmCacheKey,
+  reply: ClassificationReply
+): Promise<void> {
+  const result: Prisma.InputJsonValue = {
+    events: reply.events.map(toEventJson),
+    documentType: reply.documentType ?? null,
+  };
+  await prisma.llmCache.upsert({
+    where: { promptHash_promptVersion_model: key },
+    create: { ...key, result },
+    update: { result },
+  });
+}
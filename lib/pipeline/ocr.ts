@@ -0,0 +1,84 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { extractDocumentText } from "@/lib/ocr";
+import type { TextProgressCallback } from "@/lib/ocr";
+import type { PageWord } from "@/lib/types/chronology";
+import { computeTextHash, computeSimHash } from "@/lib/utils/textHash";
+
+/** A page's recognized words in the shape stored as Page.layout */
+function toLayoutJson(words: PageWord[]): Prisma.InputJsonObject {
+  return {
+    words: words.map(({ start, end, box }) => ({
+      start,
+      end,
+      box: { left: box.left, top: box.top, right: box.right, bottom: box.bottom },
+    })),
+  };
+}
+
+/**
+ * OCRs a stored document and replaces its pages (and any events derived from
+ * the old pages) with the result. Returns the number of pages saved.
+ */
+export async function ocrDocument(
+  document: { id: string; filename: string },
+  runId: string,
+  onProgress?: TextProgressCallback
+): Promise<number> {
+  console.log("[ocr] Starting OCR for document:", document.filename);
+  const ocrPages = await extractDocumentText(
+    {
+      documentId: document.id,
+      key: document.filename,
+      runId,
+    },
+    onProgress
+  );
+
+  if (ocrPages.length === 0) {
+    throw new Error("No OCR output found");
+  }
+
+  // Deduplicate pages by pageNumber (in case OCR returns duplicates)
+  const uniquePages = new Map<number, (typeof ocrPages)[0]>();
+  for (const p of ocrPages) {
+    if (!uniquePages.has(p.pageNumber)) {
+      uniquePages.set(p.pageNumber, p);
+    }
+  }
+  const pages = Array.from(uniquePages.values());
+  console.log("[ocr] OCR complete,", pages.length, "pages");
+
+  // Clear existing data and save new pages in a transaction
+  await prisma.$transaction(async (tx) => {
+    await tx.dateEvent.deleteMany({
+      where: { documentId: document.id },
+    });
+    await tx.page.deleteMany({
+      where: { documentId: document.id },
+    });
+
+    await tx.page.createMany({
+      data: pages.map((p) => ({
+        documentId: document.id,
+        pageNumber: p.pageNumber,
+        text: p.text,
+        textSource: p.source,
+        layout: p.words ? toLayoutJson(p.words) : undefined,
+        // Compute hashes for duplicate detection
+        textHash: computeTextHash(p.text),
+        simHash: computeSimHash(p.text),
+      })),
+    });
+
+    await tx.document.update({
+      where: { id: document.id },
+      data: {
+        totalPages: pages.length,
+        processedAt: new Date(),
+      },
+    });
+  });
+
+  return pages.length;
+}
@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createMockLlmProvider } from "@/lib/llm";
+import { prisma } from "@/lib/db";
+import { comparePromptVersions } from "./promptComparison";
+import { PROMPT_VERSIONS, getPromptTemplate } from "./prompts";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    document: { findUnique: vi.fn() },
+    llmCache: { findUnique: vi.fn(), upsert: vi.fn() },
+  },
+}));
+
+const lab = { date: "2024-01-15", summary: "Lipid panel", type: "lab", isPrimary: true };
+const note = { date: "2024-01-14", summary: "Fasting instructions", type: "note" };
+const visit = { date: "2024-02-01", summary: "Clinic follow-up", type: "visit", isPrimary: true };
+
+// Only v1 asks for endDatePrecision, so it also finds the note on page 1
+const llm = createMockLlmProvider([
+  { match: String.raw`endDatePrecision[\s\S]*Lipid panel`, response: { events: [lab, note] } },
+  { match: "Lipid panel", response: { events: [lab] } },
+  { response: { events: [visit] } },
+]);
+
+beforeEach(() => {
+  vi.mocked(prisma.llmCache.findUnique).mockResolvedValue(null);
+  vi.mocked(prisma.llmCache.upsert).mockResolvedValue({} as never);
+  vi.mocked(prisma.document.findUnique).mockResolvedValue({
+    datePolicy: "auto",
+    dateOrder: "mdy",
+    language: "auto",
+    dateLanguage: "en",
+    pages: [
+      { id: "p1", pageNumber: 1, text: "Lipid panel 01/15/2024", extractedDates: [] },
+      { id: "p2", pageNumber: 2, text: "Clinic visit 02/01/2024", extractedDates: [] },
+    ],
+  } as never);
+});
+
+describe("prompt versions", () => {
+  it("keeps the original prompt as v0 and defaults to the newest", () => {
+    expect(PROMPT_VERSIONS).toEqual(["v0", "v1"]);
+    expect(getPromptTemplate().version).toBe("v1");
+  });
+});
+
+describe("comparePromptVersions", () => {
+  it("matches events on date and type and reports the rest by page", async () => {
+    const comparison = await comparePromptVersions("d1", "v0", "v1", { llm });
+
+    expect(comparison?.pagesCompared).toBe(2);
+    expect(comparison?.a).toMatchObject({ version: "v0", eventCount: 2, failedPages: [] });
+    expect(comparison?.b.eventTypes).toMatchObject({ lab: 1, note: 1, visit: 1 });
+    expect(comparison?.agreement).toEqual({ matchedEvents: 2, events: 0.8, primaryDates: 1 });
+    expect(comparison?.differences).toEqual([
+      {
+        pageNumber: 1,
+        onlyA: [],
+        onlyB: [{ date: note.date, type: "note", summary: note.summary }],
+        primaryDateA: "2024-01-15",
+        primaryDateB: "2024-01-15",
+      },
+    ]);
+  });
+
+  it("returns null for a missing document", async () => {
+    vi.mocked(prisma.document.findUnique).mockResolvedValue(null);
+    expect(await comparePromptVersions("missing", "v0", "v1", { llm })).toBeNull();
+  });
+});
@@ -0,0 +1,283 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getLlmProvider } from "@/lib/llm";
+import type { LlmProvider, LlmUsage } from "@/lib/llm";
+import type { EventType } from "@/lib/types/chronology";
+import { addUsage, classifyPages } from "./classify";
+import type { ExtractedEvent, PageClassificationResult } from "./classify";
+import { EVENT_TYPES } from "./classificationSchema";
+import { documentDateOptions, toExtractedDate } from "./dates";
+import { getPromptTemplate } from "./prompts";
+
+/** How one prompt version did over the compared pages */
+export interface PromptVersionSummary {
+  version: string;
+  description: string;
+  eventCount: number;
+  /** Events found, by type */
+  eventTypes: Record<EventType, number>;
+  /** Pages the version failed to classify */
+  failedPages: number[];
+  /** Pages answered from the classification cache */
+  cachedPages: number;
+  /** Tokens spent, when the provider reports them */
+  usage: LlmUsage | null;
+}
+
+/** An event as compared between versions */
+export interface ComparedEvent {
+  date: string;
+  type: EventType;
+  summary: string;
+}
+
+/** A page the two versions read differently */
+export interface PageDifference {
+  pageNumber: number;
+  /** Events only version A found */
+  onlyA: ComparedEvent[];
+  /** Events only version B found */
+  onlyB: ComparedEvent[];
+  primaryDateA: string | null;
+  primaryDateB: string | null;
+}
+
+export interface PromptComparison {
+  model: string;
+  /** Pages both versions classified; failed pages are left out of agreement */
+  pagesCompared: number;
+  a: PromptVersionSummary;
+  b: PromptVersionSummary;
+  agreement: {
+    /** Events both versions found on the same page, with the same date and type */
+    matchedEvents: number;
+    /** Share of all events found that both versions found (0-1; 1 when neither found any) */
+    events: number;
+    /** Share of pages whose primary date is the same in both versions (0-1) */
+    primaryDates: number;
+  };
+  differences: PageDifference[];
+}
+
+function summarize(
+  version: string,
+  results: PageClassificationResult[]
+): PromptVersionSummary {
+  const eventTypes = Object.fromEntries(EVENT_TYPES.map((t) => [t, 0])) as Record<
+    EventType,
+    number
+  >;
+  let usage: LlmUsage | undefined;
+  for (const result of results) {
+    for (const event of result.events) eventTypes[event.type]++;
+    usage = addUsage(usage, result.usage ?? null);
+  }
+
+  return {
+    version,
+    description: getPromptTemplate(version).description,
+    eventCount: results.reduce((sum, r) => sum + r.events.length, 0),
+    eventTypes,
+    failedPages: results.filter((r) => r.error).map((r) => r.pageNumber),
+    cachedPages: results.filter((r) => r.cached).length,
+    usage: usage ?? null,
+  };
+}
+
+function primaryDate(events: ExtractedEvent[]): string | null {
+  return events.find((e) => e.isPrimary)?.date ?? null;
+}
+
+function compared(event: ExtractedEvent): ComparedEvent {
+  return { date: event.date, type: event.type, summary: event.summary };
+}
+
+/**
+ * Splits two versions' events for a page into those both found (same date
+ * and type; summaries are worded too freely to compare) and those only one
+ * found.
+ */
+function matchEvents(a: ExtractedEvent[], b: ExtractedEvent[]) {
+  const key = (e: ExtractedEvent) => `${e.date}|${e.type}`;
+  const unmatchedB = [...b];
+  const onlyA: ExtractedEvent[] = [];
+  let matched = 0;
+
+  for (const event of a) {
+    const i = unmatchedB.findIndex((other) => key(other) === key(event));
+    if (i === -1) {
+      onlyA.push(event);
+    } else {
+      unmatchedB.splice(i, 1);
+      matched++;
+    }
+  }
+
+  return { matched, onlyA, onlyB: unmatchedB };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function summaryJson(summary: PromptVersionSummary): Prisma.InputJsonObject {
+  return {
+    version: summary.version,
+    description: summary.description,
+    eventCount: summary.eventCount,
+    eventTypes: summary.eventTypes,
+    failedPages: summary.failedPages,
+    cachedPages: summary.cachedPages,
+    usage: summary.usage && {
+      inputTokens: summary.usage.inputTokens,
+      outputTokens: summary.usage.outputTokens,
+    },
+  };
+}
+
+function comparedEventJson(event: ComparedEvent): Prisma.InputJsonObject {
+  return { date: event.date, type: event.type, summary: event.summary };
+}
+
+/** A comparison in the shape stored as PromptComparison.result */
+export function toPromptComparisonJson(comparison: PromptComparison): Prisma.InputJsonObject {
+  return {
+    model: comparison.model,
+    pagesCompared: comparison.pagesCompared,
+    a: summaryJson(comparison.a),
+    b: summaryJson(comparison.b),
+    agreement: {
+      matchedEvents: comparison.agreement.matchedEvents,
+      events: comparison.agreement.events,
+      primaryDates: comparison.agreement.primaryDates,
+    },
+    differences: comparison.differences.map((d) => ({
+      pageNumber: d.pageNumber,
+      onlyA: d.onlyA.map(comparedEventJson),
+      onlyB: d.onlyB.map(comparedEventJson),
+      primaryDateA: d.primaryDateA,
+      primaryDateB: d.primaryDateB,
+    })),
+  };
+}
+
+function isVersionSummary(value: unknown): value is PromptVersionSummary {
+  return (
+    isRecord(value) &&
+    typeof value.version === "string" &&
+    typeof value.eventCount === "number" &&
+    isRecord(value.eventTypes) &&
+    Array.isArray(value.failedPages)
+  );
+}
+
+/** Whether a stored result has the shape of a comparison report */
+export function isPromptComparison(value: unknown): value is PromptComparison {
+  return (
+    isRecord(value) &&
+    typeof value.model === "string" &&
+    typeof value.pagesCompared === "number" &&
+    isVersionSummary(value.a) &&
+    isVersionSummary(value.b) &&
+    isRecord(value.agreement) &&
+    Array.isArray(value.differences)
+  );
+}
+
+/**
+ * Classifies a document's dated pages (or just `pageNumbers`) with two
+ * prompt versions and reports how their events differ: counts, types, and
+ * how often they agree. Classifications are cached per version like any
+ * other, but no events are saved. Runs as a queued run (see
+ * enqueuePromptComparison). Returns null if the document doesn't exist.
+ */
+export async function comparePromptVersions(
+  documentId: string,
+  versionA: string,
+  versionB: string,
+  options: { llm?: LlmProvider; pageNumbers?: number[] } = {}
+): Promise<PromptComparison | null> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    select: {
+      datePolicy: true,
+      dateOrder: true,
+      language: true,
+      dateLanguage: true,
+      pages: {
+        where: {
+          hasDate: true,
+          ...(options.pageNumbers && { pageNumber: { in: options.pageNumbers } }),
+        },
+        orderBy: { pageNumber: "asc" },
+        select: {
+          id: true,
+          pageNumber: true,
+          text: true,
+          extractedDates: { orderBy: { offset: "asc" } },
+        },
+      },
+    },
+  });
+  if (!document) return null;
+
+  const llm = options.llm ?? getLlmProvider();
+  const dateOptions = documentDateOptions(
+    document,
+    document.pages.map((p) => p.text)
+  );
+  const pages = document.pages.map((p) => ({
+    pageNumber: p.pageNumber,
+    pageId: p.id,
+    text: p.text,
+    extractedDates: p.extractedDates.map(toExtractedDate),
+    dateOrder: dateOptions.order,
+    language: dateOptions.language,
+  }));
+
+  const resultsA = await classifyPages(pages, undefined, { llm, promptVersion: versionA });
+  const resultsB = await classifyPages(pages, undefined, { llm, promptVersion: versionB });
+
+  let pagesCompared = 0;
+  let matchedEvents = 0;
+  let comparedEvents = 0;
+  let samePrimaryDates = 0;
+  const differences: PageDifference[] = [];
+
+  resultsA.forEach((a, i) => {
+    const b = resultsB[i];
+    if (a.error || b.error) return;
+    pagesCompared++;
+
+    const { matched, onlyA, onlyB } = matchEvents(a.events, b.events);
+    matchedEvents += matched;
+    comparedEvents += a.events.length + b.events.length;
+
+    const primaryDateA = primaryDate(a.events);
+    const primaryDateB = primaryDate(b.events);
+    if (primaryDateA === primaryDateB) samePrimaryDates++;
+
+    if (onlyA.length > 0 || onlyB.length > 0 || primaryDateA !== primaryDateB) {
+      differences.push({
+        pageNumber: a.pageNumber,
+        onlyA: onlyA.map(compared),
+        onlyB: onlyB.map(compared),
+        primaryDateA,
+        primaryDateB,
+      });
+    }
+  });
+
+  return {
+    model: llm.model,
+    pagesCompared,
+    a: summarize(versionA, resultsA),
+    b: summarize(versionB, resultsB),
+    agreement: {
+      matchedEvents,
+      events: comparedEvents > 0 ? (2 * matchedEvents) / comparedEvents : 1,
+      primaryDates: pagesCompared > 0 ? samePrimaryDates / pagesCompared : 1,
+    },
+    differences,
+  };
+}
@@ -0,0 +1,26 @@
+import type { DateClassification, DateOrder } from "@/lib/types/chronology";
+
+/** How prompts explain the document's numeric date order */
+export const DATE_ORDER_HINTS: Record<DateOrder, string> = {
+  mdy: "Numeric dates in this document are written month first (MM/DD/YYYY), so 03/04/2021 is March 4, 2021.",
+  dmy: "Numeric dates in this document are written day first (DD/MM/YYYY), so 03/04/2021 is 3 April 2021.",
+};
+
+/** How prompts describe each label the date extractor gave a date */
+export const DATE_CLASSIFICATION_HINTS: Record<DateClassification, string> = {
+  date_of_service: "date of service",
+  dob: "date of birth (ignore)",
+  referenced: "date mentioned in the text",
+  fax: "fax/transmission stamp (ignore)",
+  printed: "print or report generation timestamp (ignore)",
+  signed: "signature date",
+  revised: "document revision date (ignore)",
+  ordered: "order date",
+  collected: "specimen collection date",
+  resulted: "result date",
+  admission: "admission date",
+  discharge: "discharge date",
+  referenced_history: "past medical history",
+  scheduled: "future appointment or follow-up (not yet happened)",
+  unknown: "unlabeled",
+};
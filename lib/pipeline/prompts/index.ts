@@ -0,0 +1,27 @@
+import type { PromptTemplate } from "./types";
+import { v0 } from "./v0";
+import { v1 } from "./v1";
+
+export type { PromptTemplate } from "./types";
+
+/** Every prompt version, oldest first */
+export const PROMPT_TEMPLATES: PromptTemplate[] = [v0, v1];
+
+export const PROMPT_VERSIONS = PROMPT_TEMPLATES.map((t) => t.version);
+
+/**
+ * Returns the prompt template for `version`, or the deployment's default
+ * (CLASSIFY_PROMPT_VERSION, else the newest version).
+ */
+export function getPromptTemplate(version?: string): PromptTemplate {
+  const wanted = version ?? process.env.CLASSIFY_PROMPT_VERSION;
+  if (!wanted) return PROMPT_TEMPLATES[PROMPT_TEMPLATES.length - 1];
+
+  const template = PROMPT_TEMPLATES.find((t) => t.version === wanted);
+  if (!template) {
+    throw new Error(
+      `Unknown prompt version: ${wanted} (expected one of: ${PROMPT_VERSIONS.join(", ")})`
+    );
+  }
+  return template;
+}
@@ -0,0 +1,16 @@
+import type { PageToClassify } from "../classify";
+
+/**
+ * A version of the page classification prompt. Versions are never edited
+ * once events have been classified with them: a changed prompt is a new
+ * version, so events, cached classifications and comparisons stay
+ * attributable to the prompt that produced them.
+ */
+export interface PromptTemplate {
+  /** Recorded on events and cache entries, e.g. "v1" */
+  version: string;
+  /** What sets this version apart, for comparison reports */
+  description: string;
+  /** The prompt for one page; the reply must fit the classification schema */
+  build(page: PageToClassify): string;
+}
@@ -0,0 +1,48 @@
+import type { PageToClassify } from "../classify";
+import type { PromptTemplate } from "./types";
+
+// The prompt the classify route sent before prompts were versioned
+function buildPrompt(page: PageToClassify): string {
+  return `You are analyzing a page from medical records. Extract ALL clinically relevant date-event pairs.
+
+For each date found, provide:
+1. The date in ISO format (YYYY-MM-DD)
+2. A brief summary of what happened (<15 words)
+3. Event type: visit, lab, imaging, procedure, medication, note, or other
+4. Whether this is the PRIMARY date (when the document was created/service rendered)
+5. Your confidence level (0.0 to 1.0)
+
+IGNORE these dates:
+- Patient date of birth (DOB)
+- Fax/transmission timestamps
+- "Page X of Y" patterns
+- Document print dates (unless it's the only date)
+- "Revised" or "Updated" dates that refer to document updates, not clinical events
+
+PAGE TEXT:
+---
+${page.text.slice(0, 3000)}
+---
+
+RESPOND WITH ONLY THIS JSON (no markdown, no explanation):
+{
+  "events": [
+    {
+      "date": "2023-01-15",
+      "summary": "ER visit for chest pain",
+      "type": "visit",
+      "isPrimary": true,
+      "confidence": 0.95
+    }
+  ],
+  "documentType": "Emergency Department Note"
+}
+
+If no relevant dates are found, return: {"events": [], "documentType": null}`;
+}
+
+export const v0: PromptTemplate = {
+  version: "v0",
+  description: "Original date-event pairs: full dates only, no spans, times, quotes or hints",
+  build: buildPrompt,
+};
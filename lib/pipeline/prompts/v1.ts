@@ -0,0 +1,95 @@
+import { LANGUAGE_PACKS } from "@/lib/chronology/languages";
+import type { PageToClassify } from "../classify";
+import { DATE_CLASSIFICATION_HINTS, DATE_ORDER_HINTS } from "./hints";
+import type { PromptTemplate } from "./types";
+
+function buildPrompt(page: PageToClassify): string {
+  const dateOrderHint = page.dateOrder
+    ? `\n${DATE_ORDER_HINTS[page.dateOrder]}\n`
+    : "";
+  const languageHint =
+    page.language && page.language !== "en"
+      ? `\nThis document is written in ${LANGUAGE_PACKS[page.language].name}. Read its dates in that language, but write summaries in English.\n`
+      : "";
+
+  const labeled = page.extractedDates.filter(
+    (d) => !d.inferred && d.classification !== "unknown"
+  );
+  const labelHint =
+    labeled.length > 0
+      ? `\nNearby labels suggest what these dates are (check against the text):\n${labeled
+          .map((d) => `- "${d.raw}": ${DATE_CLASSIFICATION_HINTS[d.classification]}`)
+          .join("\n")}\n`
+      : "";
+
+  const inferred = page.extractedDates.filter((d) => d.inferred);
+  const relativeHint =
+    inferred.length > 0
+      ? `\nRelative dates on this page have been resolved as follows. Use these dates for events described with them:\n${inferred
+          .map((d) => `- "${d.raw}" = ${d.iso} (${d.inferred!.reasoning})`)
+          .join("\n")}\n`
+      : "";
+
+  return `You are analyzing a page from medical records. Extract ALL clinically relevant date-event pairs.
+
+For each date found, provide:
+1. The date in ISO format (YYYY-MM-DD). If the page only gives a month or year, use YYYY-MM or YYYY - never invent a day or month
+   - datePrecision: "day", "month" or "year" to match, or "approximate" if the page hedges ("circa", "around", "early 2020")
+   - time: the time of day as 24-hour "HH:MM" if the page gives one for the event ("14:30", "0210 hrs", "2:30 PM"); omit it otherwise
+   - For spans (hospital admission to discharge, a course of therapy or medication), give the start as "date" and the end as "endDate" (same format, with "endDatePrecision"). Report a span as ONE event, not separate start and end events
+2. A brief summary of what happened (<15 words)
+3. Event type: visit, lab, imaging, procedure, medication, note, or other
+4. Whether this is the PRIMARY date (when the document was created/service rendered)
+5. Your confidence level (0.0 to 1.0)
+6. "dateText": the date exactly as written on the page, and "evidence": the sentence or line that supports the event, copied verbatim from the page text (under 200 characters)
+
+IGNORE these dates:
+- Patient date of birth (DOB)
+- Fax/transmission timestamps
+- "Page X of Y" patterns
+- Document print dates (unless it's the only date)
+- "Revised" or "Updated" dates that refer to document updates, not clinical events
+${dateOrderHint}${languageHint}${labelHint}${relativeHint}
+PAGE TEXT:
+---
+${page.text.slice(0, 3000)}
+---
+
+RESPOND WITH ONLY THIS JSON (no markdown, no explanation):
+{
+  "events": [
+    {
+      "date": "2023-01-15",
+      "datePrecision": "day",
+      "time": "02:10",
+      "dateText": "01/15/2023 0210 hrs",
+      "evidence": "Pt presented to ED 01/15/2023 0210 hrs with chest pain",
+      "summary": "ER visit for chest pain",
+      "type": "visit",
+      "isPrimary": true,
+      "confidence": 0.95
+    },
+    {
+      "date": "2023-01-15",
+      "datePrecision": "day",
+      "endDate": "2023-01-19",
+      "endDatePrecision": "day",
+      "dateText": "1/15/23 - 1/19/23",
+      "evidence": "Admitted 1/15/23 - 1/19/23 for NSTEMI",
+      "summary": "Inpatient admission for NSTEMI",
+      "type": "visit",
+      "isPrimary": false,
+      "confidence": 0.9
+    }
+  ],
+  "documentType": "Emergency Department Note"
+}
+
+If no relevant dates are found, return: {"events": [], "documentType": null}`;
+}
+
+export const v1: PromptTemplate = {
+  version: "v1",
+  description: "Date-event pairs with spans, times, quotes and the extractor's date hints",
+  build: buildPrompt,
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseRuleChange } from "./rulePreview";
+
+vi.mock("@/lib/db", () => ({ prisma: {} }));
+
+describe("parseRuleChange", () => {
+  it("reads added, updated and removed rules", () => {
+    expect(
+      parseRuleChange({
+        add: [{ pattern: "visit", classification: "date_of_service", confidence: 0.8 }],
+        update: [{ id: "r1", enabled: false }],
+        remove: ["r2"],
+      })
+    ).toEqual({
+      change: {
+        add: [{ pattern: "visit", classification: "date_of_service", confidence: 0.8 }],
+        update: [{ id: "r1", enabled: false }],
+        remove: ["r2"],
+      },
+    });
+  });
+
+  it.each([
+    [{ add: "visit" }, "add must be an array of rules"],
+    [{ add: [{ pattern: 3 }] }, "New rule 1: pattern must be a string"],
+    [{ update: { id: "r1" } }, "update must be an array of rules"],
+    [{ update: [{ enabled: false }] }, "Updated rule 1: id must be a string"],
+    [{ update: [null] }, "Updated rule 1: Request body must be a JSON object"],
+    [{ remove: "r2" }, "remove must be an array of rule ids"],
+    [{ remove: [2] }, "remove must be an array of rule ids"],
+  ])("rejects %j", (body, problem) => {
+    expect(parseRuleChange(body)).toEqual({ error: problem });
+  });
+});
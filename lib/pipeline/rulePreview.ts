@@ -0,0 +1,225 @@
+import { getDatesWithContext, selectDateOfService, validateContextRule } from "@/lib/chronology";
+import { prisma } from "@/lib/db";
+import { documentDateOptions, pageLayout } from "./dates";
+import {
+  parseRuleInput,
+  ruleInputFromRow,
+  rulesFromRows,
+  storedRuleRows,
+  withRuleDefaults,
+} from "./rules";
+import type { DateRuleInput, DateRuleRow } from "./rules";
+import type { ExtractedDate } from "@/lib/types/chronology";
+
+/** A proposed change to the stored rules, as the rules API would make it */
+export interface RuleChange {
+  add?: Partial<DateRuleInput>[];
+  update?: ({ id: string } & Partial<DateRuleInput>)[];
+  remove?: string[];
+}
+
+/**
+ * Reads a rule change from a request body, checking the fields of each
+ * added or updated rule with parseRuleInput. The rules as a whole are
+ * checked when the change is applied. Returns an error message for a
+ * malformed change.
+ */
+export function parseRuleChange(body: {
+  add?: unknown;
+  update?: unknown;
+  remove?: unknown;
+}): { change: RuleChange } | { error: string } {
+  const change: RuleChange = {};
+
+  if (body.add !== undefined) {
+    if (!Array.isArray(body.add)) return { error: "add must be an array of rules" };
+    change.add = [];
+    for (const [i, entry] of body.add.entries()) {
+      const parsed = parseRuleInput(entry);
+      if ("error" in parsed) return { error: `New rule ${i + 1}: ${parsed.error}` };
+      change.add.push(parsed.input);
+    }
+  }
+
+  if (body.update !== undefined) {
+    if (!Array.isArray(body.update)) return { error: "update must be an array of rules" };
+    change.update = [];
+    for (const [i, entry] of body.update.entries()) {
+      const parsed = parseRuleInput(entry);
+      if ("error" in parsed) return { error: `Updated rule ${i + 1}: ${parsed.error}` };
+      const { id } = entry as { id?: unknown };
+      if (typeof id !== "string") return { error: `Updated rule ${i + 1}: id must be a string` };
+      change.update.push({ id, ...parsed.input });
+    }
+  }
+
+  if (body.remove !== undefined) {
+    if (!Array.isArray(body.remove) || !body.remove.every((id) => typeof id === "string")) {
+      return { error: "remove must be an array of rule ids" };
+    }
+    change.remove = body.remove;
+  }
+
+  return { change };
+}
+
+/**
+ * Applies a proposed change to stored rule rows without saving it. Returns
+ * an error message if the change names an unknown rule or makes an invalid one.
+ */
+function applyRuleChange(
+  rows: DateRuleRow[],
+  change: RuleChange,
+  organizationId: string | null
+): { rows: DateRuleRow[] } | { error: string } {
+  const ids = new Set(rows.map((row) => row.id));
+  for (const id of [...(change.remove ?? []), ...(change.update ?? []).map((u) => u.id)]) {
+    if (!ids.has(id)) return { error: `Rule ${id} does not apply to this document` };
+  }
+
+  const removed = new Set(change.remove ?? []);
+  const changed: DateRuleRow[] = [];
+  for (const row of rows) {
+    if (removed.has(row.id)) continue;
+    const update = change.update?.find((u) => u.id === row.id);
+    if (!update) {
+      changed.push(row);
+      continue;
+    }
+    const rule = withRuleDefaults({ ...ruleInputFromRow(row), ...update });
+    const problem = validateContextRule(rule);
+    if (problem) return { error: `Rule ${row.id}: ${problem}` };
+    changed.push({ ...row, ...rule });
+  }
+
+  for (const [i, input] of (change.add ?? []).entries()) {
+    const rule = withRuleDefaults(input);
+    const problem = validateContextRule(rule);
+    if (problem) return { error: `New rule ${i + 1}: ${problem}` };
+    changed.push({ id: `new-${i + 1}`, organizationId, ...rule });
+  }
+
+  return { rows: changed };
+}
+
+/** One date whose reading differs between the current and proposed rules */
+export interface DateReclassification {
+  pageNumber: number;
+  raw: string;
+  offset: number;
+  /** True for dates inferred from relative expressions */
+  inferred: boolean;
+  current: Pick<ExtractedDate, "iso" | "classification" | "confidence"> | null;
+  proposed: Pick<ExtractedDate, "iso" | "classification" | "confidence"> | null;
+}
+
+export interface RulePreview {
+  pagesCompared: number;
+  datesCompared: number;
+  changes: DateReclassification[];
+  /** Pages whose heuristic date of service would change */
+  dateOfServiceChanges: {
+    pageNumber: number;
+    current: string | null;
+    proposed: string | null;
+  }[];
+}
+
+function reading(date: ExtractedDate | undefined): DateReclassification["current"] {
+  return date
+    ? { iso: date.iso, classification: date.classification, confidence: date.confidence }
+    : null;
+}
+
+/**
+ * Shows how a change to the stored rules would reclassify the dates of an
+ * existing document, re-reading its pages with the current and the proposed
+ * rules. Nothing is saved. Returns an error message for invalid changes, or
+ * null if the document doesn't exist.
+ */
+export async function previewRuleChange(
+  documentId: string,
+  change: RuleChange
+): Promise<RulePreview | { error: string } | null> {
+  const document = await prisma.document.findUnique({
+    where: { id: documentId },
+    include: {
+      pages: {
+        orderBy: { pageNumber: "asc" },
+        select: { pageNumber: true, text: true, layout: true },
+      },
+    },
+  });
+  if (!document) return null;
+
+  const rows = await storedRuleRows(document.organizationId);
+  const applied = applyRuleChange(rows, change, document.organizationId);
+  if ("error" in applied) return applied;
+
+  const options = documentDateOptions(document, document.pages.map((p) => p.text));
+  const currentRules = rulesFromRows(rows);
+  const proposedRules = rulesFromRows(applied.rows);
+
+  const preview: RulePreview = {
+    pagesCompared: document.pages.length,
+    datesCompared: 0,
+    changes: [],
+    dateOfServiceChanges: [],
+  };
+
+  for (const page of document.pages) {
+    const layout = pageLayout(page);
+    const current = getDatesWithContext(page.text, { ...options, layout, rules: currentRules });
+    const proposed = getDatesWithContext(page.text, { ...options, layout, rules: proposedRules });
+
+    const key = (d: ExtractedDate) => `${d.offset}:${d.raw}`;
+    const proposedByKey = new Map(proposed.map((d) => [key(d), d]));
+    const currentKeys = new Set(current.map(key));
+    preview.datesCompared += current.length;
+
+    for (const date of current) {
+      const after = proposedByKey.get(key(date));
+      if (
+        after &&
+        after.iso === date.iso &&
+        after.classification === date.classification &&
+        after.confidence === date.confidence
+      ) {
+        continue;
+      }
+      preview.changes.push({
+        pageNumber: page.pageNumber,
+        raw: date.raw,
+        offset: date.offset,
+        inferred: !!date.inferred,
+        current: reading(date),
+        proposed: reading(after),
+      });
+    }
+
+    // Relative dates can appear once a new anchor is classified
+    for (const date of proposed) {
+      if (currentKeys.has(key(date))) continue;
+      preview.changes.push({
+        pageNumber: page.pageNumber,
+        raw: date.raw,
+        offset: date.offset,
+        inferred: !!date.inferred,
+        current: null,
+        proposed: reading(date),
+      });
+    }
+
+    const currentDos = selectDateOfService(current)?.date ?? null;
+    const proposedDos = selectDateOfService(proposed)?.date ?? null;
+    if (currentDos !== proposedDos) {
+      preview.dateOfServiceChanges.push({
+        pageNumber: page.pageNumber,
+        current: currentDos,
+        proposed: proposedDos,
+      });
+    }
+  }
+
+  return preview;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseRuleInput } from "./rules";
+
+vi.mock("@/lib/db", () => ({ prisma: {} }));
+
+describe("parseRuleInput", () => {
+  it("reads the rule fields and ignores others", () => {
+    expect(
+      parseRuleInput({
+        name: "Visit",
+        pattern: "visit",
+        window: "after",
+        confidence: 0.7,
+        enabled: false,
+        organizationId: "org",
+      })
+    ).toEqual({
+      input: { name: "Visit", pattern: "visit", window: "after", confidence: 0.7, enabled: false },
+    });
+  });
+
+  it.each([
+    [null, "Request body must be a JSON object"],
+    [["visit"], "Request body must be a JSON object"],
+    [{ name: 3 }, "name must be a string or null"],
+    [{ pattern: /visit/ }, "pattern must be a string"],
+    [{ window: "inside" }, "window must be one of"],
+    [{ classification: "birthday" }, "classification must be one of"],
+    [{ windowChars: "50" }, "windowChars must be a number"],
+    [{ enabled: "yes" }, "enabled must be true or false"],
+  ])("rejects %j", (body, problem) => {
+    const parsed = parseRuleInput(body);
+    expect("error" in parsed && parsed.error).toMatch(problem);
+  });
+});
@@ -0,0 +1,212 @@
+import { readFileSync } from "fs";
+import {
+  DATE_CLASSIFICATIONS,
+  DEFAULT_CONTEXT_RULES,
+  RULE_WINDOWS,
+  validateContextRule,
+} from "@/lib/chronology";
+import { prisma } from "@/lib/db";
+import type {
+  DateClassification,
+  DateContextRule,
+  DateRuleResponse,
+  RuleWindow,
+} from "@/lib/types/chronology";
+
+/** A rule as written to the database, with the schema's defaults optional */
+export interface DateRuleInput {
+  name?: string | null;
+  pattern: string;
+  window?: RuleWindow;
+  windowChars?: number;
+  classification: DateClassification;
+  confidence: number;
+  priority?: number;
+  enabled?: boolean;
+}
+
+/** The DateRule columns rules are built from */
+export interface DateRuleRow {
+  id: string;
+  organizationId: string | null;
+  pattern: string;
+  window: string;
+  windowChars: number;
+  classification: string;
+  confidence: number;
+  priority: number;
+  enabled: boolean;
+}
+
+type DateRuleRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.dateRule.findUnique>>
+>;
+
+const globalForRules = globalThis as unknown as {
+  baseContextRules: DateContextRule[] | undefined;
+};
+
+/** Fills in the schema defaults for fields a rule input leaves out */
+export function withRuleDefaults(input: Partial<DateRuleInput>): DateContextRule & {
+  enabled: boolean;
+} {
+  return {
+    pattern: input.pattern as string,
+    window: input.window ?? "before",
+    windowChars: input.windowChars ?? 50,
+    classification: input.classification as DateClassification,
+    confidence: input.confidence as number,
+    priority: input.priority ?? 100,
+    enabled: input.enabled ?? true,
+  };
+}
+
+/** A stored rule as a rule input, so changed fields can be applied over it */
+export function ruleInputFromRow(row: DateRuleRow): DateRuleInput {
+  return {
+    pattern: row.pattern,
+    window: row.window as RuleWindow,
+    windowChars: row.windowChars,
+    classification: row.classification as DateClassification,
+    confidence: row.confidence,
+    priority: row.priority,
+    enabled: row.enabled,
+  };
+}
+
+/**
+ * Reads the rule fields of a request body, checking the type of each one
+ * given; other fields are ignored. The rule as a whole is checked later, by
+ * validateContextRule. Returns an error message for a field of the wrong type.
+ */
+export function parseRuleInput(
+  body: unknown
+): { input: Partial<DateRuleInput> } | { error: string } {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { error: "Request body must be a JSON object" };
+  }
+  const fields = body as Record<string, unknown>;
+  const input: Partial<DateRuleInput> = {};
+
+  if (fields.name !== undefined) {
+    if (fields.name !== null && typeof fields.name !== "string") {
+      return { error: "name must be a string or null" };
+    }
+    input.name = fields.name;
+  }
+  if (fields.pattern !== undefined) {
+    if (typeof fields.pattern !== "string") return { error: "pattern must be a string" };
+    input.pattern = fields.pattern;
+  }
+  if (fields.window !== undefined) {
+    const window = RULE_WINDOWS.find((w) => w === fields.window);
+    if (!window) return { error: `window must be one of: ${RULE_WINDOWS.join(", ")}` };
+    input.window = window;
+  }
+  if (fields.classification !== undefined) {
+    const classification = DATE_CLASSIFICATIONS.find((c) => c === fields.classification);
+    if (!classification) {
+      return { error: `classification must be one of: ${DATE_CLASSIFICATIONS.join(", ")}` };
+    }
+    input.classification = classification;
+  }
+  for (const key of ["windowChars", "confidence", "priority"] as const) {
+    if (fields[key] === undefined) continue;
+    const value = fields[key];
+    if (typeof value !== "number") return { error: `${key} must be a number` };
+    input[key] = value;
+  }
+  if (fields.enabled !== undefined) {
+    if (typeof fields.enabled !== "boolean") return { error: "enabled must be true or false" };
+    input.enabled = fields.enabled;
+  }
+
+  return { input };
+}
+
+/**
+ * Reads the rules that replace the built-in ones from DATE_RULES_FILE, a
+ * JSON array of rules. Throws if the file doesn't hold valid rules.
+ */
+function loadRulesFile(path: string): DateContextRule[] {
+  const rules: unknown = JSON.parse(readFileSync(path, "utf8"));
+  if (!Array.isArray(rules)) {
+    throw new Error(`DATE_RULES_FILE ${path} must contain a JSON array of rules`);
+  }
+  return rules.map((input, i) => {
+    const rule = withRuleDefaults(input);
+    const problem = validateContextRule(rule);
+    if (problem) {
+      throw new Error(`DATE_RULES_FILE ${path}, rule ${i + 1}: ${problem}`);
+    }
+    return rule;
+  });
+}
+
+/**
+ * The rules every document starts from: DATE_RULES_FILE when set, otherwise
+ * the built-in rules. The file is read once per process.
+ */
+export function baseContextRules(): DateContextRule[] {
+  if (!globalForRules.baseContextRules) {
+    const path = process.env.DATE_RULES_FILE;
+    globalForRules.baseContextRules = path ? loadRulesFile(path) : DEFAULT_CONTEXT_RULES;
+  }
+  return globalForRules.baseContextRules;
+}
+
+/** Stored rules that apply to an organization: shared ones first, then its own */
+export async function storedRuleRows(organizationId: string | null): Promise<DateRuleRow[]> {
+  return prisma.dateRule.findMany({
+    where: {
+      OR: [{ organizationId: null }, ...(organizationId ? [{ organizationId }] : [])],
+    },
+    orderBy: [{ organizationId: { sort: "asc", nulls: "first" } }, { createdAt: "asc" }],
+  });
+}
+
+/**
+ * The base rules followed by the enabled stored ones. Stored rules lose ties
+ * to earlier rules, so one meant to override a base rule needs a higher
+ * priority.
+ */
+export function rulesFromRows(rows: DateRuleRow[]): DateContextRule[] {
+  return [
+    ...baseContextRules(),
+    ...rows
+      .filter((row) => row.enabled)
+      .map((row) => ({
+        pattern: row.pattern,
+        window: row.window as RuleWindow,
+        windowChars: row.windowChars,
+        classification: row.classification as DateClassification,
+        confidence: row.confidence,
+        priority: row.priority,
+      })),
+  ];
+}
+
+/** The context rules a document of `organizationId` is classified with */
+export async function organizationContextRules(
+  organizationId: string | null
+): Promise<DateContextRule[]> {
+  return rulesFromRows(await storedRuleRows(organizationId));
+}
+
+/** Converts a stored rule to its API representation */
+export function toDateRuleResponse(rule: DateRuleRecord): DateRuleResponse {
+  return {
+    id: rule.id,
+    organizationId: rule.organizationId,
+    name: rule.name,
+    pattern: rule.pattern,
+    window: rule.window as RuleWindow,
+    windowChars: rule.windowChars,
+    classification: rule.classification as DateClassification,
+    confidence: rule.confidence,
+    priority: rule.priority,
+    enabled: rule.enabled,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+  };
+}
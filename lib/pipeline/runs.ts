@@ -0,0 +1,452 @@
+import { prisma } from "@/lib/db";
+import { getLlmProvider, LLM_PROVIDERS } from "@/lib/llm";
+import type { LlmProviderName } from "@/lib/llm";
+import {
+  acquireProcessingLock,
+  refreshProcessingLock,
+  releaseProcessingLock,
+} from "@/lib/processingLock";
+import type {
+  RunKind,
+  RunResponse,
+  RunStage,
+  RunStatus,
+} from "@/lib/types/chronology";
+import { classifyPages, saveClassificationResults } from "./classify";
+import { clusterDocument } from "./clusters";
+import { segmentDocument } from "./segments";
+import {
+  documentDateOptions,
+  extractDocumentDates,
+  toExtractedDate,
+} from "./dates";
+import { detectDuplicatePages } from "./duplicates";
+import { ocrDocument } from "./ocr";
+import { comparePromptVersions, toPromptComparisonJson } from "./promptComparison";
+
+/** Stages in execution order */
+export const RUN_STAGES: RunStage[] = [
+  "ocr",
+  "dates",
+  "classify",
+  "duplicates",
+  "segment",
+  "cluster",
+  "done",
+];
+
+/** Attempts before a failing run is marked failed instead of requeued */
+const MAX_RUN_ATTEMPTS = 3;
+
+/** Wait before retrying a failed run, doubled after each further failure */
+const RETRY_DELAY_MS = 30 * 1000;
+
+/** How often a worker records that it is still executing a run */
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+/** Running runs without a heartbeat for this long are assumed abandoned */
+const STALE_RUN_MS = 5 * 60 * 1000;
+
+/** Minimum time between OCR progress writes, so per-page callbacks don't flood the DB */
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+
+type RunRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.processingRun.findUnique>>
+>;
+
+/** Converts a run record to its API representation */
+export function toRunResponse(run: RunRecord): RunResponse {
+  return {
+    id: run.id,
+    documentId: run.documentId,
+    kind: run.kind as RunKind,
+    status: run.status as RunStatus,
+    stage: run.stage as RunStage,
+    attempts: run.attempts,
+    error: run.error,
+    totalPages: run.totalPages,
+    pagesOcred: run.pagesOcred,
+    pagesWithDates: run.pagesWithDates,
+    pagesToClassify: run.pagesToClassify,
+    pagesClassified: run.pagesClassified,
+    failedPages: run.failedPages,
+    failedPageNumbers: run.failedPageNumbers,
+    eventsCreated: run.eventsCreated,
+    createdAt: run.createdAt.toISOString(),
+    startedAt: run.startedAt?.toISOString() ?? null,
+    finishedAt: run.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * Queues a processing run for a document. If the document already has a
+ * queued or running processing run, that run is returned instead.
+ */
+export async function enqueueRun(documentId: string): Promise<RunRecord> {
+  const active = await prisma.processingRun.findFirst({
+    where: { documentId, kind: "process", status: { in: ["queued", "running"] } },
+    orderBy: { createdAt: "desc" },
+  });
+  if (active) return active;
+
+  return prisma.processingRun.create({ data: { documentId } });
+}
+
+/** What a prompt comparison run classifies, and with what */
+export interface PromptComparisonOptions {
+  versionA: string;
+  versionB: string;
+  /** Pages to compare; every page with a date when absent */
+  pageNumbers?: number[];
+  /** LLM to classify with, instead of the deployment's LLM_PROVIDER */
+  provider?: LlmProviderName;
+}
+
+/**
+ * Queues a run that classifies a document's pages with two prompt versions
+ * and stores how their events differ (see comparePromptVersions). It
+ * waits for the document's lock like a processing run, but saves no events.
+ */
+export async function enqueuePromptComparison(
+  documentId: string,
+  options: PromptComparisonOptions
+): Promise<RunRecord> {
+  return prisma.processingRun.create({
+    data: {
+      documentId,
+      kind: "prompt_comparison",
+      stage: "classify",
+      promptComparison: {
+        create: {
+          versionA: options.versionA,
+          versionB: options.versionB,
+          provider: options.provider ?? null,
+          pageNumbers: options.pageNumbers ?? [],
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Requeues a finished or failed run, picking up at `stage` (default: the
+ * stage it stopped at). Resuming at "ocr" reads the document again and
+ * resuming at "classify" retries pages that failed. Prompt comparisons
+ * always start over. Returns null if the run is still
+ * active.
+ */
+export async function resumeRun(
+  runId: string,
+  stage?: RunStage
+): Promise<RunRecord | null> {
+  const run = await prisma.processingRun.findUnique({ where: { id: runId } });
+  if (!run || run.status === "queued" || run.status === "running") {
+    return null;
+  }
+
+  const next: RunStage =
+    run.kind === "prompt_comparison"
+      ? "classify"
+      : (stage ?? (run.stage === "done" ? "classify" : (run.stage as RunStage)));
+
+  return prisma.processingRun.update({
+    where: { id: runId },
+    data: {
+      status: "queued",
+      stage: next,
+      attempts: 0,
+      error: null,
+      finishedAt: null,
+      redoOcr: next === "ocr",
+      availableAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Atomically claims the oldest queued run that is due for this worker.
+ * Returns its id, or null if no run is.
+ */
+export async function claimNextRun(): Promise<string | null> {
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "ProcessingRun"
+    SET "status" = 'running',
+        "attempts" = "attempts" + 1,
+        "startedAt" = COALESCE("startedAt", NOW()),
+        "heartbeatAt" = NOW(),
+        "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "ProcessingRun"
+      WHERE "status" = 'queued' AND "availableAt" <= NOW()
+      ORDER BY "createdAt"
+      FOR UPDATE SKIP LOCKED
+      LIMIT 1
+    )
+    RETURNING "id"
+  `;
+
+  return claimed[0]?.id ?? null;
+}
+
+/**
+ * Puts runs whose worker stopped heartbeating (crash, redeploy) back in the
+ * queue so they resume from their last completed stage.
+ */
+export async function requeueStaleRuns(): Promise<number> {
+  const { count } = await prisma.processingRun.updateMany({
+    where: {
+      status: "running",
+      heartbeatAt: { lt: new Date(Date.now() - STALE_RUN_MS) },
+    },
+    data: { status: "queued" },
+  });
+  return count;
+}
+
+async function runOcrStage(run: RunRecord) {
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: run.documentId },
+    include: { _count: { select: { pages: true } } },
+  });
+
+  let lastWrite = 0;
+  let pendingWrite: Promise<unknown> = Promise.resolve();
+  const reportProgress = (pagesOcred: number, pageCount: number) => {
+    const now = Date.now();
+    if (now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+    lastWrite = now;
+    pendingWrite = prisma.processingRun
+      .update({
+        where: { id: run.id },
+        data: { pagesOcred, ...(pageCount > 0 && { totalPages: pageCount }) },
+      })
+      .catch((error) =>
+        console.error(`[run ${run.id}] Progress update failed:`, error)
+      );
+  };
+
+  // OCR output is cached on the pages; never pay for it twice unless the
+  // run was resumed at "ocr" to read the document again
+  const totalPages =
+    document._count.pages > 0 && !run.redoOcr
+      ? document._count.pages
+      : await ocrDocument(document, run.id, reportProgress);
+
+  // Don't let a late progress write overwrite the final counts
+  await pendingWrite;
+
+  await prisma.processingRun.update({
+    where: { id: run.id },
+    data: { totalPages, pagesOcred: totalPages, redoOcr: false },
+  });
+}
+
+async function runDatesStage(run: RunRecord) {
+  const pages = await extractDocumentDates(run.documentId);
+  await prisma.processingRun.update({
+    where: { id: run.id },
+    data: {
+      pagesWithDates: pages.filter((p) => p.extractedDates.length > 0).length,
+    },
+  });
+}
+
+async function runClassifyStage(run: RunRecord) {
+  // Fails the stage up front if the provider isn't configured
+  const llm = getLlmProvider();
+
+  // Only pages not yet analyzed, so resumed runs skip finished work
+  const pages = await prisma.page.findMany({
+    where: { documentId: run.documentId, hasDate: true, llmAnalyzed: false },
+    orderBy: { pageNumber: "asc" },
+    select: {
+      id: true,
+      pageNumber: true,
+      text: true,
+      extractedDates: { orderBy: { offset: "asc" } },
+    },
+  });
+
+  await prisma.processingRun.update({
+    where: { id: run.id },
+    data: {
+      pagesToClassify: pages.length,
+      pagesClassified: 0,
+      failedPages: 0,
+      failedPageNumbers: [],
+    },
+  });
+
+  const document = await prisma.document.findUniqueOrThrow({
+    where: { id: run.documentId },
+    select: {
+      datePolicy: true,
+      dateOrder: true,
+      language: true,
+      dateLanguage: true,
+    },
+  });
+  const dateOptions = documentDateOptions(document, pages.map((p) => p.text));
+
+  await classifyPages(
+    pages.map((p) => ({
+      pageNumber: p.pageNumber,
+      pageId: p.id,
+      text: p.text,
+      // As stored by the dates stage, with any reviewer corrections
+      extractedDates: p.extractedDates.map(toExtractedDate),
+      dateOrder: dateOptions.order,
+      language: dateOptions.language,
+    })),
+    async (results) => {
+      const eventsCreated = await saveClassificationResults(run.documentId, results);
+      const failed = results.filter((r) => r.error).map((r) => r.pageNumber);
+      await prisma.processingRun.update({
+        where: { id: run.id },
+        data: {
+          pagesClassified: { increment: results.length - failed.length },
+          failedPages: { increment: failed.length },
+          failedPageNumbers: { push: failed },
+          eventsCreated: { increment: eventsCreated },
+          heartbeatAt: new Date(),
+        },
+      });
+    },
+    { llm }
+  );
+}
+
+async function runDuplicatesStage(run: RunRecord) {
+  await detectDuplicatePages(run.documentId);
+}
+
+async function runSegmentStage(run: RunRecord) {
+  await segmentDocument(run.documentId);
+}
+
+async function runClusterStage(run: RunRecord) {
+  await clusterDocument(run.documentId);
+}
+
+/** Classifies the run's pages with both prompt versions and stores the report */
+async function runPromptComparison(run: RunRecord) {
+  const request = await prisma.promptComparison.findUniqueOrThrow({
+    where: { runId: run.id },
+  });
+  const provider = LLM_PROVIDERS.find((name) => name === request.provider);
+
+  const comparison = await comparePromptVersions(
+    run.documentId,
+    request.versionA,
+    request.versionB,
+    {
+      llm: getLlmProvider(provider),
+      ...(request.pageNumbers.length > 0 && { pageNumbers: request.pageNumbers }),
+    }
+  );
+  if (!comparison) throw new Error(`Document not found: ${run.documentId}`);
+
+  await prisma.promptComparison.update({
+    where: { id: request.id },
+    data: { result: toPromptComparisonJson(comparison) },
+  });
+}
+
+const STAGE_HANDLERS: Record<
+  Exclude<RunStage, "done">,
+  (run: RunRecord) => Promise<void>
+> = {
+  ocr: runOcrStage,
+  dates: runDatesStage,
+  classify: runClassifyStage,
+  duplicates: runDuplicatesStage,
+  segment: runSegmentStage,
+  cluster: runClusterStage,
+};
+
+/**
+ * Executes a claimed run from its current stage to the end, checkpointing
+ * after each stage; a prompt comparison runs as a single step. Failures
+ * requeue the run, after a growing delay, until MAX_RUN_ATTEMPTS. Returns
+ * false, with the run back in the queue, if another run holds the
+ * document's lock.
+ */
+export async function executeRun(runId: string): Promise<boolean> {
+  const run = await prisma.processingRun.findUniqueOrThrow({
+    where: { id: runId },
+  });
+
+  // The document lock also guards against direct /api/process calls
+  const locked = await acquireProcessingLock(run.documentId, run.id);
+  if (!locked) {
+    console.log(`[run ${runId}] Document is locked, requeueing`);
+    await prisma.processingRun.update({
+      where: { id: runId },
+      data: { status: "queued", attempts: { decrement: 1 } },
+    });
+    return false;
+  }
+
+  // The heartbeat also keeps the document lock from expiring mid-run
+  const heartbeat = setInterval(() => {
+    Promise.all([
+      prisma.processingRun.update({
+        where: { id: runId },
+        data: { heartbeatAt: new Date() },
+      }),
+      refreshProcessingLock(run.documentId, runId).then((held) => {
+        if (!held) console.warn(`[run ${runId}] Lost the document lock`);
+      }),
+    ]).catch((error) => console.error(`[run ${runId}] Heartbeat failed:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    if (run.kind === "prompt_comparison") {
+      console.log(`[run ${runId}] Comparing prompt versions`);
+      await runPromptComparison(run);
+      await prisma.processingRun.update({
+        where: { id: runId },
+        data: { stage: "done" },
+      });
+    } else {
+      for (
+        let i = RUN_STAGES.indexOf(run.stage as RunStage);
+        i >= 0 && i < RUN_STAGES.length - 1;
+        i++
+      ) {
+        const stage = RUN_STAGES[i] as Exclude<RunStage, "done">;
+        console.log(`[run ${runId}] Starting stage: ${stage}`);
+        await STAGE_HANDLERS[stage](run);
+        await prisma.processingRun.update({
+          where: { id: runId },
+          data: { stage: RUN_STAGES[i + 1] },
+        });
+      }
+    }
+
+    await prisma.processingRun.update({
+      where: { id: runId },
+      data: { status: "completed", finishedAt: new Date() },
+    });
+    console.log(`[run ${runId}] Completed`);
+  } catch (error) {
+    const exhausted = run.attempts >= MAX_RUN_ATTEMPTS;
+    console.error(
+      `[run ${runId}] Failed (attempt ${run.attempts}/${MAX_RUN_ATTEMPTS}):`,
+      error
+    );
+    await prisma.processingRun.update({
+      where: { id: runId },
+      data: {
+        status: exhausted ? "failed" : "queued",
+        error: String(error),
+        finishedAt: exhausted ? new Date() : null,
+        availableAt: new Date(Date.now() + RETRY_DELAY_MS * 2 ** (run.attempts - 1)),
+      },
+    });
+  } finally {
+    clearInterval(heartbeat);
+    await releaseProcessingLock(run.documentId, run.id);
+  }
+  return true;
+}
@@ -0,0 +1,66 @@
+import { findSegments } from "@/lib/chronology";
+import { prisma } from "@/lib/db";
+import { pageLayout } from "./dates";
+import type { DocumentSegment, SegmentBoundary } from "@/lib/types/chronology";
+
+type SegmentRecord = NonNullable<
+  Awaited<ReturnType<typeof prisma.segment.findUnique>>
+>;
+
+/** Converts a stored segment to its API representation */
+export function toDocumentSegment(segment: SegmentRecord): DocumentSegment {
+  return {
+    startPage: segment.startPage,
+    endPage: segment.endPage,
+    boundaries: segment.boundaries as SegmentBoundary[],
+    ...(segment.provider && { provider: segment.provider }),
+  };
+}
+
+/**
+ * Splits a document's stored pages into the medical records they came from
+ * (see findSegments) and stores the segments, replacing earlier ones.
+ */
+export async function segmentDocument(documentId: string): Promise<DocumentSegment[]> {
+  const pages = await prisma.page.findMany({
+    where: { documentId },
+    orderBy: { pageNumber: "asc" },
+    select: { pageNumber: true, text: true, layout: true },
+  });
+
+  const segments = findSegments(
+    pages.map((page) => ({
+      pageNumber: page.pageNumber,
+      text: page.text,
+      layout: pageLayout(page),
+    }))
+  );
+
+  await prisma.$transaction([
+    prisma.segment.deleteMany({ where: { documentId } }),
+    prisma.segment.createMany({
+      data: segments.map((segment) => ({
+        documentId,
+        startPage: segment.startPage,
+        endPage: segment.endPage,
+        boundaries: segment.boundaries,
+        provider: segment.provider ?? null,
+      })),
+    }),
+  ]);
+
+  console.log(
+    `[segment] ${segments.length} records in ${pages.length} pages of document ${documentId}`
+  );
+
+  return segments;
+}
+
+/** Reads a document's stored segments, in page order */
+export async function loadSegments(documentId: string): Promise<DocumentSegment[]> {
+  const segments = await prisma.segment.findMany({
+    where: { documentId },
+    orderBy: { startPage: "asc" },
+  });
+  return segments.map(toDocumentSegment);
+}
@@ -0,0 +1,61 @@
+import { claimNextRun, executeRun, requeueStaleRuns } from "./runs";
+
+/** How long an idle worker waits before checking the queue again */
+const POLL_INTERVAL_MS = 2000;
+
+interface WorkerState {
+  /** Cuts the current idle wait short */
+  wake: () => void;
+}
+
+const globalForWorker = globalThis as unknown as {
+  pipelineWorker: WorkerState | undefined;
+};
+
+async function workLoop(state: WorkerState) {
+  for (;;) {
+    try {
+      const requeued = await requeueStaleRuns();
+      if (requeued > 0) {
+        console.log("[worker] Requeued", requeued, "stale runs");
+      }
+
+      const runId = await claimNextRun();
+      if (runId) {
+        console.log("[worker] Claimed run:", runId);
+        // A run put back because its document is locked would be claimed
+        // again straight away; wait before polling instead
+        if (await executeRun(runId)) continue;
+      }
+    } catch (error) {
+      console.error("[worker] Error polling queue:", error);
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, POLL_INTERVAL_MS);
+      state.wake = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    });
+  }
+}
+
+/**
+ * Starts the in-process queue worker (once per server process). Runs are
+ * claimed with SKIP LOCKED, so several server processes can work the same
+ * queue safely.
+ */
+export function startWorker(): void {
+  if (globalForWorker.pipelineWorker) return;
+
+  const state: WorkerState = { wake: () => {} };
+  globalForWorker.pipelineWorker = state;
+  console.log("[worker] Starting pipeline worker");
+  void workLoop(state);
+}
+
+/** Asks an idle worker in this process to check the queue now */
+export function wakeWorker(): void {
+  globalForWorker.pipelineWorker?.wake();
+}
@@ -0,0 +1,66 @@
+import { randomUUID } from "crypto";
+import { prisma } from "@/lib/db";
+
+/**
+ * Locks older than this are treated as abandoned (crashed server, killed
+ * request) and may be taken over. Generous enough for a 900-page OCR run
+ * through /api/process; queued runs also refresh their lock as they go.
+ */
+const LOCK_TTL_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Atomically claims a document for processing. A run may re-take a lock it
+ * already holds (e.g. when it was requeued after its worker crashed).
+ * Returns a new run id on success, or null if another run holds the lock.
+ */
+export async function acquireProcessingLock(
+  documentId: string,
+  runId: string = randomUUID()
+): Promise<string | null> {
+  const staleBefore = new Date(Date.now() - LOCK_TTL_MS);
+
+  const { count } = await prisma.document.updateMany({
+    where: {
+      id: documentId,
+      OR: [
+        { processingLockId: null },
+        { processingLockId: runId },
+        { processingLockedAt: { lt: staleBefore } },
+      ],
+    },
+    data: {
+      processingLockId: runId,
+      processingLockedAt: new Date(),
+    },
+  });
+
+  return count === 1 ? runId : null;
+}
+
+/**
+ * Marks the lock held by `runId` as still in use, so a long run doesn't lose
+ * it to another processor. Returns false if the run no longer holds it.
+ */
+export async function refreshProcessingLock(
+  documentId: string,
+  runId: string
+): Promise<boolean> {
+  const { count } = await prisma.document.updateMany({
+    where: { id: documentId, processingLockId: runId },
+    data: { processingLockedAt: new Date() },
+  });
+  return count === 1;
+}
+
+/**
+ * Releases the lock if it is still held by `runId`.
+ */
+export async function releaseProcessingLock(
+  documentId: string,
+  runId: string
+): Promise<void> {
+  await prisma.document.updateMany({
+    where: { id: documentId, processingLockId: runId },
+    data: { processingLockId: null, processingLockedAt: null },
+  });
+}
@@ -0,0 +1,124 @@
+import type { ProcessingStatus, RunResponse } from "@/lib/types/chronology";
+
+/** Fraction of the progress bar given to each stage, in order */
+const OCR_END = 40;
+const DATES_END = 45;
+const CLASSIFY_END = 95;
+
+function fraction(done: number, total: number): number {
+  return total > 0 ? Math.min(done / total, 1) : 0;
+}
+
+/** Maps a server-side processing run to the UI progress model */
+export function runToProcessingStatus(run: RunResponse): ProcessingStatus {
+  const counts = {
+    totalPages: run.totalPages,
+    pagesOcred: run.pagesOcred,
+    pagesWithDates: run.pagesWithDates,
+    pagesToClassify: run.pagesToClassify,
+    pagesClassified: run.pagesClassified,
+    failedPages: run.failedPages,
+    failedPageNumbers: run.failedPageNumbers,
+    eventsCreated: run.eventsCreated,
+  };
+
+  if (run.status === "failed") {
+    return {
+      phase: "error",
+      progress: 0,
+      error: run.error ?? "Processing failed",
+      counts,
+    };
+  }
+  if (run.status === "completed") {
+    return {
+      phase: "done",
+      progress: 100,
+      message:
+        run.failedPages > 0
+          ? `Created ${run.eventsCreated} events, ${run.failedPages} pages failed classification`
+          : `Created ${run.eventsCreated} events from AI analysis`,
+      counts,
+    };
+  }
+  if (run.status === "queued" && !run.startedAt) {
+    return { phase: "ocr", progress: 0, message: "Waiting for a worker...", counts };
+  }
+
+  switch (run.stage) {
+    case "ocr":
+      return {
+        phase: "ocr",
+        progress: Math.round(OCR_END * fraction(run.pagesOcred, run.totalPages)),
+        message:
+          run.totalPages > 0
+            ? `Read ${run.pagesOcred} of ${run.totalPages} pages...`
+            : "Running OCR on PDF pages...",
+        counts,
+      };
+    case "dates":
+      return {
+        phase: "extracting",
+        progress: OCR_END,
+        message: `Finding dates in ${run.totalPages} pages...`,
+        counts,
+      };
+    case "classify": {
+      const done = run.pagesClassified + run.failedPages;
+      return {
+        phase: "classifying",
+        progress: Math.round(
+          DATES_END +
+            (CLASSIFY_END - DATES_END) * fraction(done, run.pagesToClassify)
+        ),
+        message: `Analyzed ${done} of ${run.pagesToClassify} pages with AI...`,
+        counts,
+      };
+    }
+    case "duplicates":
+      return {
+        phase: "clustering",
+        progress: CLASSIFY_END,
+        message: "Detecting duplicate pages...",
+        counts,
+      };
+    case "segment":
+      return {
+        phase: "clustering",
+        progress: CLASSIFY_END,
+        message: "Finding where each record begins...",
+        counts,
+      };
+    default:
+      return {
+        phase: "clustering",
+        progress: CLASSIFY_END,
+        message: "Grouping pages by date of service...",
+        counts,
+      };
+  }
+}
+
+/**
+ * Subscribes to a document's processing progress over Server-Sent Events,
+ * calling `onUpdate` with each run snapshot until the run completes or fails.
+ * Returns a function that closes the stream.
+ */
+export function watchDocumentProgress(
+  documentId: string,
+  onUpdate: (run: RunResponse | null) => void
+): () => void {
+  const source = new EventSource(`/api/documents/${documentId}/progress`);
+
+  source.addEventListener("progress", (event) => {
+    onUpdate(JSON.parse((event as MessageEvent<string>).data));
+  });
+  source.addEventListener("end", (event) => {
+    // Close before the server does, so EventSource doesn't reconnect
+    source.close();
+    // The final run was already sent as "progress"; null means no run exists
+    if ((event as MessageEvent<string>).data === "null") onUpdate(null);
+  });
+
+  return () => source.close();
+}
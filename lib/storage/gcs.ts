@@ -0,0 +1,77 @@
+import { Storage } from "@google-cloud/storage";
+import { gcpClientOptions } from "@/lib/gcp";
+import type { FileStorage } from "./types";
+
+/**
+ * Google Cloud Storage backend. Uses the bucket named by GCS_BUCKET_NAME.
+ */
+export function createGcsStorage(
+  bucketName = process.env.GCS_BUCKET_NAME || ""
+): FileStorage {
+  if (!bucketName) {
+    throw new Error("GCS_BUCKET_NAME environment variable is not set");
+  }
+
+  const bucket = new Storage(gcpClientOptions()).bucket(bucketName);
+
+  return {
+    name: "gcs",
+
+    async put(key, data, options) {
+      await bucket.file(key).save(data, {
+        metadata: { contentType: options?.contentType },
+      });
+    },
+
+    async get(key) {
+      const [buffer] = await bucket.file(key).download();
+      return buffer;
+    },
+
+    stream(key) {
+      return bucket.file(key).createReadStream();
+    },
+
+    async exists(key) {
+      const [exists] = await bucket.file(key).exists();
+      return exists;
+    },
+
+    async stat(key) {
+      const file = bucket.file(key);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+
+      const [metadata] = await file.getMetadata();
+      return {
+        size: Number(metadata.size ?? 0),
+        contentType: metadata.contentType || "application/octet-stream",
+      };
+    },
+
+    async delete(key) {
+      await bucket.file(key).delete({ ignoreNotFound: true });
+    },
+
+    async list(prefix) {
+      const [files] = await bucket.getFiles({ prefix });
+      return files.map((f) => f.name);
+    },
+
+    async deletePrefix(prefix) {
+      await bucket.deleteFiles({ prefix });
+    },
+
+    async getTemporaryUrl(key, expiresInMs) {
+      const [url] = await bucket.file(key).getSignedUrl({
+        action: "read",
+        expires: Date.now() + expiresInMs,
+      });
+      return url;
+    },
+
+    uri(key) {
+      return `gs://${bucketName}/${key}`;
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import { createGcsStorage } from "./gcs";
+import { createLocalStorage } from "./local";
+import type { FileStorage } from "./types";
+
+export type { FileStorage, StoredObjectInfo, PutOptions } from "./types";
+
+export type StorageBackend = "gcs" | "local";
+
+const globalForStorage = globalThis as unknown as {
+  fileStorage: FileStorage | undefined;
+};
+
+/**
+ * Creates the storage backend selected by STORAGE_BACKEND ("gcs" or "local").
+ * Defaults to GCS.
+ */
+function createStorage(): FileStorage {
+  const backend = (process.env.STORAGE_BACKEND || "gcs") as StorageBackend;
+
+  switch (backend) {
+    case "gcs":
+      return createGcsStorage();
+    case "local":
+      return createLocalStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND: ${backend}`);
+  }
+}
+
+/** Returns the shared storage backend for this process */
+export function getStorage(): FileStorage {
+  if (!globalForStorage.fileStorage) {
+    globalForStorage.fileStorage = createStorage();
+  }
+  return globalForStorage.fileStorage;
+}
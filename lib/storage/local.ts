@@ -0,0 +1,116 @@
+import { createReadStream } from "fs";
+import { mkdir, readFile, readdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { pathToFileURL } from "url";
+import type { FileStorage } from "./types";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".json": "application/json",
+  ".txt": "text/plain",
+  ".png": "image/png",
+};
+
+function contentTypeFor(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || "application/octet-stream";
+}
+
+/**
+ * Local-disk backend for running without a bucket (laptops, air-gapped hosts).
+ * Files live under LOCAL_STORAGE_DIR (default: ./.data/storage). Content type
+ * is derived from the file extension.
+ */
+export function createLocalStorage(
+  rootDir = process.env.LOCAL_STORAGE_DIR ||
+    path.join(process.cwd(), ".data", "storage")
+): FileStorage {
+  const root = path.resolve(rootDir);
+
+  /** Resolves a key to an absolute path, rejecting keys that escape the root */
+  function resolveKey(key: string): string {
+    const resolved = path.resolve(root, key);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async function walk(dir: string): Promise<string[]> {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const files: string[] = [];
+    for (const entry of entries) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await walk(full)));
+      } else {
+        files.push(full);
+      }
+    }
+    return files;
+  }
+
+  function toKey(fullPath: string): string {
+    return path.relative(root, fullPath).split(path.sep).join("/");
+  }
+
+  return {
+    name: "local",
+
+    async put(key, data) {
+      const target = resolveKey(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, data);
+    },
+
+    async get(key) {
+      return readFile(resolveKey(key));
+    },
+
+    stream(key) {
+      return createReadStream(resolveKey(key));
+    },
+
+    async exists(key) {
+      return (await this.stat(key)) !== null;
+    },
+
+    async stat(key) {
+      try {
+        const info = await stat(resolveKey(key));
+        if (!info.isFile()) return null;
+        return { size: info.size, contentType: contentTypeFor(key) };
+      } catch {
+        return null;
+      }
+    },
+
+    async delete(key) {
+      await rm(resolveKey(key), { force: true });
+    },
+
+    async list(prefix) {
+      const files = await walk(root);
+      return files.map(toKey).filter((key) => key.startsWith(prefix));
+    },
+
+    async deletePrefix(prefix) {
+      const keys = await this.list(prefix);
+      await Promise.all(keys.map((key) => this.delete(key)));
+    },
+
+    async getTemporaryUrl(key) {
+      // Local files are served through the app itself
+      return `/api/pdf?filename=${encodeURIComponent(key)}`;
+    },
+
+    uri(key) {
+      return pathToFileURL(resolveKey(key)).href;
+    },
+  };
+}
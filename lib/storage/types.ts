@@ -0,0 +1,35 @@
+import type { Readable } from "stream";
+
+/** Metadata about a stored object */
+export interface StoredObjectInfo {
+  size: number;
+  contentType: string;
+}
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+/**
+ * Backend-agnostic object storage used for uploaded PDFs and OCR output.
+ * Keys are slash-separated paths relative to the storage root.
+ */
+export interface FileStorage {
+  /** Backend identifier, e.g. "gcs" or "local" */
+  readonly name: string;
+  put(key: string, data: Buffer, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string): Readable;
+  exists(key: string): Promise<boolean>;
+  /** Returns size and content type, or null if the object does not exist */
+  stat(key: string): Promise<StoredObjectInfo | null>;
+  delete(key: string): Promise<void>;
+  /** Lists keys under a prefix */
+  list(prefix: string): Promise<string[]>;
+  /** Deletes every object under a prefix */
+  deletePrefix(prefix: string): Promise<void>;
+  /** Returns a URL the browser can use to read the object for a limited time */
+  getTemporaryUrl(key: string, expiresInMs: number): Promise<string>;
+  /** Backend-native URI for the object (gs://bucket/key, file:///path) */
+  uri(key: string): string;
+}
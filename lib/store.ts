@@ -2,6 +2,7 @@ import { create } from "zustand";
 import { persist, createJSONStorage, StateStorage } from "zustand/middleware";
 import { get, set, del } from "idb-keyval";
 import type {
+  Highlight,
   ProcessingStatus,
   ProcessingPhase,
 } from "@/lib/types/chronology";
@@ -23,10 +24,12 @@ interface Store {
   uploadedDocs: string[];
   selectedDoc: string | null;
   currentDocumentId: string | null;
+  currentRunId: string | null;
   addUploadedDoc: (doc: string) => void;
   removeUploadedDoc: (doc: string) => void;
   setSelectedDoc: (doc: string | null) => void;
   setCurrentDocumentId: (id: string | null) => void;
+  setCurrentRunId: (id: string | null) => void;
   clearUploadedDocs: () => void;
 
   // Processing status
@@ -38,10 +41,15 @@ interface Store {
   pdfUrl: string | null;
   viewerPage: number;
   viewerOpen: boolean;
+  /** Text outlined in the viewer, and which one is selected */
+  viewerHighlights: Highlight[];
+  viewerHighlightIndex: number;
   setPdfUrl: (url: string | null) => void;
   setViewerPage: (page: number) => void;
   openViewer: (page?: number) => void;
   closeViewer: () => void;
+  setViewerHighlights: (highlights: Highlight[]) => void;
+  setViewerHighlightIndex: (index: number) => void;
 
   // Timeline UI
   selectedClusterId: string | null;
@@ -65,6 +73,7 @@ export const useStore = create<Store>()(
       uploadedDocs: [],
       selectedDoc: null,
       currentDocumentId: null,
+      currentRunId: null,
       addUploadedDoc: (doc) =>
         set((state) => ({ uploadedDocs: [...state.uploadedDocs, doc] })),
       removeUploadedDoc: (doc) =>
@@ -73,7 +82,8 @@ export const useStore = create<Store>()(
         })),
       setSelectedDoc: (doc) => set({ selectedDoc: doc }),
       setCurrentDocumentId: (id) => set({ currentDocumentId: id }),
-      clearUploadedDocs: () => set({ uploadedDocs: [], selectedDoc: null, currentDocumentId: null }),
+      setCurrentRunId: (id) => set({ currentRunId: id }),
+      clearUploadedDocs: () => set({ uploadedDocs: [], selectedDoc: null, currentDocumentId: null, currentRunId: null }),
 
       // Processing status
       processingStatus: initialProcessingStatus,
@@ -94,6 +104,8 @@ export const useStore = create<Store>()(
       pdfUrl: null,
       viewerPage: 1,
       viewerOpen: false,
+      viewerHighlights: [],
+      viewerHighlightIndex: 0,
       setPdfUrl: (url) => set({ pdfUrl: url }),
       setViewerPage: (page) => set({ viewerPage: page }),
       openViewer: (page) =>
@@ -101,7 +113,10 @@ export const useStore = create<Store>()(
           viewerOpen: true,
           viewerPage: page ?? state.viewerPage,
         })),
-      closeViewer: () => set({ viewerOpen: false }),
+      closeViewer: () => set({ viewerOpen: false, viewerHighlights: [] }),
+      setViewerHighlights: (highlights) =>
+        set({ viewerHighlights: highlights, viewerHighlightIndex: 0 }),
+      setViewerHighlightIndex: (index) => set({ viewerHighlightIndex: index }),
 
       // Timeline UI
       selectedClusterId: null,
@@ -121,6 +136,8 @@ export const useStore = create<Store>()(
           pdfUrl: null,
           viewerPage: 1,
           viewerOpen: false,
+          viewerHighlights: [],
+          viewerHighlightIndex: 0,
           selectedClusterId: null,
           expandedDates: [],
         }),
@@ -133,6 +150,7 @@ export const useStore = create<Store>()(
         uploadedDocs: state.uploadedDocs,
         selectedDoc: state.selectedDoc,
         currentDocumentId: state.currentDocumentId,
+        currentRunId: state.currentRunId,
         pdfUrl: state.pdfUrl,
       }),
     }
@@ -1,36 +1,228 @@
 /** Position hint for where a date appeared on the page */
 export type PagePosition = "top" | "middle" | "bottom";
 
+/** Part of the page layout a date sits in, from its bounding box */
+export type PageRegion = "header" | "body" | "footer";
+
+/**
+ * A rectangle on the page, normalized to 0-1 of the page's width and height
+ * with the origin at the top left.
+ */
+export interface BoundingBox {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** A word's place in the page text and on the page */
+export interface PageWord {
+  /** Character offsets of the word in the page text (end exclusive) */
+  start: number;
+  end: number;
+  box: BoundingBox;
+}
+
+/** Geometry of a page's text, as recognized (stored as Page.layout) */
+export interface PageLayout {
+  words: PageWord[];
+}
+
+/** Text on a page to point a reviewer at in the PDF viewer */
+export interface Highlight {
+  /** The event's date as written, or the sentence supporting the event */
+  kind: "date" | "evidence";
+  pageNumber: number;
+  text: string;
+  /** One box per line the text covers; empty when the page has no layout */
+  boxes: BoundingBox[];
+}
+
 /** Classification of date purpose in medical records */
 export type DateClassification =
   | "date_of_service" // The primary date this document refers to
   | "dob" // Patient DOB - should be ignored for chronology
   | "referenced" // A date mentioned in the content (e.g., "since 2020")
   | "fax" // Fax header dates
+  | "printed" // "Printed on", "Generated", report run dates
+  | "signed" // Electronic signature / authentication dates
+  | "revised" // "Last updated", "Revised", "Effective date"
+  | "ordered" // When a test or medication was ordered
+  | "collected" // Specimen collection dates
+  | "resulted" // When a result was reported or finalized
+  | "admission" // Hospital admission dates
+  | "discharge" // Hospital discharge dates
+  | "referenced_history" // Past history ("history of MI in 2019", "since 2020")
+  | "scheduled" // Future appointments and follow-ups
   | "unknown"; // Needs LLM classification
 
+/**
+ * How much of a date is actually known. "approximate" marks dates stated
+ * roughly ("circa 2019", "around March 2021"), at whatever parts are given.
+ */
+export type DatePrecision = "day" | "month" | "year" | "approximate";
+
+/**
+ * A date on the calendar, independent of any timezone. Month and day are
+ * 1-based and absent when the source didn't state them.
+ */
+export interface CalendarDate {
+  year: number;
+  month?: number;
+  day?: number;
+  precision: DatePrecision;
+}
+
+/** Unit of calendar arithmetic, as in "2 weeks ago" */
+export type DateUnit = "day" | "week" | "month" | "year";
+
+/** Reading order for numeric dates like 03/04/2021 */
+export type DateOrder = "mdy" | "dmy";
+
+/**
+ * How a document's numeric dates are interpreted: "us" (MDY),
+ * "international" (DMY), or "auto" (detected from the document itself)
+ */
+export type DatePolicy = "us" | "international" | "auto";
+
+/** Languages the date extractor has month names and date words for */
+export type DateLanguage = "en" | "es" | "fr" | "de" | "pt";
+
+/** A document's language setting: a specific language, or "auto" to detect it */
+export type LanguagePolicy = DateLanguage | "auto";
+
+/**
+ * Which text a context rule searches: the date's label ("before", back to
+ * the previous date), the text after it, or both sides ("around").
+ */
+export type RuleWindow = "before" | "after" | "around";
+
+/**
+ * A data-driven rule that classifies dates by the words near them, e.g.
+ * "DOS:" before a date marks its date of service.
+ */
+export interface DateContextRule {
+  /** Regular expression source, matched case-insensitively */
+  pattern: string;
+  window: RuleWindow;
+  /** How many characters of the window to search */
+  windowChars: number;
+  classification: DateClassification;
+  /** Confidence given to dates the rule classifies (0-1) */
+  confidence: number;
+  /**
+   * Higher priorities decide first. Among matching rules of the same
+   * priority, the match nearest the date wins, then the earlier rule.
+   */
+  priority: number;
+}
+
+/** A stored date context rule as returned by the API */
+export interface DateRuleResponse {
+  id: string;
+  /** null for rules shared by every organization */
+  organizationId: string | null;
+  name: string | null;
+  pattern: string;
+  window: RuleWindow;
+  windowChars: number;
+  classification: DateClassification;
+  confidence: number;
+  priority: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /** How the date of service was determined */
 export type DateSource = "heuristic" | "llm" | "inherited" | "none";
 
+/**
+ * Where undated pages take a date of service from: the nearest dated page
+ * before them ("forward"), after them ("backward"), whichever is closer
+ * ("nearest"), or nowhere ("none"). Always within the page's record.
+ */
+export type InheritanceStrategy = "forward" | "backward" | "nearest" | "none";
+
+/** Kind of medical event on the timeline */
+export type EventType =
+  | "visit"
+  | "lab"
+  | "imaging"
+  | "procedure"
+  | "medication"
+  | "note"
+  | "other";
+
 /** A date found in the document with context */
 export interface ExtractedDate {
   /** The original matched string (e.g., "01/15/2024") */
   raw: string;
-  /** Normalized ISO date string (e.g., "2024-01-15") */
+  /** Normalized ISO date string (e.g., "2024-01-15", or "2024-01" / "2024" for partial dates) */
   iso: string;
+  /** How much of the date the text actually states */
+  precision: DatePrecision;
+  /** Time of day written with the date ("14:30", "0210 hrs"), as 24-hour HH:MM */
+  time?: string;
+  /**
+   * End of a range such as "3/2/2023 – 3/9/2023" or "from 01/05/22 through
+   * 02/14/22". When set, `iso` is the start and `raw` covers the whole range.
+   */
+  end?: {
+    iso: string;
+    precision: DatePrecision;
+  };
   /** Text before and after the date (for context) */
   context: {
     before: string; // ~50 chars before
     after: string; // ~50 chars after
   };
-  /** Approximate position on page */
+  /** Position on page, from the date's bounding box when the layout is known */
   position: PagePosition;
+  /** Where the date is drawn on the page, when the page's layout is known */
+  box?: BoundingBox;
+  /** Header, body or footer, when the page's layout is known */
+  region?: PageRegion;
   /** Character offset in the page text */
   offset: number;
   /** Classification based on context keywords */
   classification: DateClassification;
   /** Confidence score for classification (0-1) */
   confidence: number;
+  /**
+   * Both readings of a numeric date that is valid either way (e.g. 03/04/2021).
+   * `iso` holds the reading chosen by the document's date order.
+   */
+  ambiguous?: {
+    mdy: string;
+    dmy: string;
+  };
+  /**
+   * The repaired text, set when the date only read as one after fixing OCR
+   * errors ("O1/15/2O23" -> "01/15/2023"). Confidence is lowered to match.
+   */
+  ocrRepaired?: string;
+  /**
+   * Set on dates derived from relative expressions ("POD #3", "2 weeks ago"),
+   * whose `raw` is the expression rather than a written date.
+   */
+  inferred?: {
+    /** ISO date the expression was counted from */
+    anchor: string;
+    /** Text of the anchor date, or a description when it came from outside the page text */
+    anchorRaw: string;
+    /** Human-readable derivation, e.g. "3 days after surgery on 01/15/2024" */
+    reasoning: string;
+  };
+}
+
+/** An extracted date as stored for its page, which reviewers can correct */
+export interface StoredDate extends ExtractedDate {
+  id: string;
+  pageId: string;
+  pageNumber?: number;
+  /** Set once a reviewer corrects the date; re-extraction keeps the correction */
+  userEdited: boolean;
 }
 
 /** Enhanced page data with date extraction */
@@ -48,6 +240,37 @@ export interface PageResult {
   documentType?: string;
 }
 
+/** A page's date of service and how it was determined (stored on the page) */
+export interface PageDateOfService {
+  pageNumber: number;
+  dateOfService: string | null;
+  dateSource: DateSource;
+  /** Confidence in the date of service (0-1); inherited dates lose some per page */
+  dateConfidence?: number;
+  /** If inherited, from which page */
+  inheritedFrom?: number;
+  /** If inherited, the strategy that assigned it */
+  inheritanceStrategy?: Exclude<InheritanceStrategy, "none">;
+  documentType?: string;
+}
+
+/** Evidence that a new medical record starts on a page */
+export type SegmentBoundary =
+  | "page_numbering" // "Page 1 of 3" after another record's last page
+  | "provider" // A different provider or facility is named
+  | "header" // The letterhead or running header changes
+  | "layout"; // The text sits differently on the page (margins, font size)
+
+/** A run of consecutive pages that belong to one medical record */
+export interface DocumentSegment {
+  startPage: number;
+  endPage: number;
+  /** Why the segment was split from the one before (empty for the first) */
+  boundaries: SegmentBoundary[];
+  /** Provider or facility named in the segment, when one was found */
+  provider?: string;
+}
+
 /** A cluster of pages sharing the same date of service */
 export interface PageCluster {
   id: string;
@@ -61,8 +284,10 @@ export interface PageCluster {
 
 /** Complete chronology result after processing */
 export interface ChronologyResult {
-  pages: PageResult[];
+  pages: PageDateOfService[];
   clusters: PageCluster[];
+  /** Records the document was split into; dates are only inherited within one */
+  segments: DocumentSegment[];
   /** Pages that couldn't be assigned to any date */
   undatedPages: number[];
   /** Processing statistics */
@@ -71,6 +296,8 @@ export interface ChronologyResult {
     pagesWithDates: number;
     pagesWithDOS: number;
     pagesInherited: number;
+    /** Inherited pages by the strategy that dated them */
+    inheritedByStrategy: Record<Exclude<InheritanceStrategy, "none">, number>;
     llmClassified: number;
   };
 }
@@ -85,10 +312,63 @@ export type ProcessingPhase =
   | "done"
   | "error";
 
+/** Live counters from the server-side processing run */
+export interface ProcessingCounts {
+  totalPages: number;
+  pagesOcred: number;
+  pagesWithDates: number;
+  pagesToClassify: number;
+  pagesClassified: number;
+  failedPages: number;
+  failedPageNumbers: number[];
+  eventsCreated: number;
+}
+
 /** Processing status for UI */
 export interface ProcessingStatus {
   phase: ProcessingPhase;
   progress: number; // 0-100
   message?: string;
   error?: string;
+  counts?: ProcessingCounts;
+}
+
+/** What a run does: process a document, or compare two prompt versions on it */
+export type RunKind = "process" | "prompt_comparison";
+
+/** Lifecycle of a server-side processing run */
+export type RunStatus = "queued" | "running" | "completed" | "failed";
+
+/** Pipeline stage a run will execute next ("done" once all have finished) */
+export type RunStage =
+  | "ocr"
+  | "dates"
+  | "classify"
+  | "duplicates"
+  | "segment"
+  | "cluster"
+  | "done";
+
+/** A processing run as returned by the API */
+export interface RunResponse {
+  id: string;
+  documentId: string;
+  kind: RunKind;
+  status: RunStatus;
+  stage: RunStage;
+  attempts: number;
+  error: string | null;
+  totalPages: number;
+  /** Pages with text so far during the OCR stage */
+  pagesOcred: number;
+  pagesWithDates: number;
+  pagesToClassify: number;
+  pagesClassified: number;
+  failedPages: number;
+  /** Pages whose classification failed; resume at "classify" to retry them */
+  failedPageNumbers: number[];
+  eventsCreated: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
 }
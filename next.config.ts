@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfjs loads its worker and wasm decoders at runtime; keep it unbundled
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "processingLockId" TEXT,
+ADD COLUMN     "processingLockedAt" TIMESTAMP(3);
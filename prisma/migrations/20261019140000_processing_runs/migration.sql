@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "ProcessingRun" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "stage" TEXT NOT NULL DEFAULT 'ocr',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "totalPages" INTEGER NOT NULL DEFAULT 0,
+    "pagesWithDates" INTEGER NOT NULL DEFAULT 0,
+    "pagesToClassify" INTEGER NOT NULL DEFAULT 0,
+    "pagesClassified" INTEGER NOT NULL DEFAULT 0,
+    "failedPages" INTEGER NOT NULL DEFAULT 0,
+    "eventsCreated" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "heartbeatAt" TIMESTAMP(3),
+
+    CONSTRAINT "ProcessingRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProcessingRun_documentId_idx" ON "ProcessingRun"("documentId");
+
+-- CreateIndex
+CREATE INDEX "ProcessingRun_status_createdAt_idx" ON "ProcessingRun"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ProcessingRun" ADD CONSTRAINT "ProcessingRun_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
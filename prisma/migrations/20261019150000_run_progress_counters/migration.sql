@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ProcessingRun" ADD COLUMN     "failedPageNumbers" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "pagesOcred" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "dateOrder" TEXT,
+ADD COLUMN     "datePolicy" TEXT NOT NULL DEFAULT 'auto';
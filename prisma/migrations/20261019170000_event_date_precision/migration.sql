@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DateEvent" ADD COLUMN     "datePrecision" TEXT NOT NULL DEFAULT 'day';
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "DateEvent" ADD COLUMN     "endDate" TEXT,
+ADD COLUMN     "endDatePrecision" TEXT;
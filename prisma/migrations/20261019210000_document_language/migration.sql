@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "dateLanguage" TEXT,
+ADD COLUMN     "language" TEXT NOT NULL DEFAULT 'auto';
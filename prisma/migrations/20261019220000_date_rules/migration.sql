@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "organizationId" TEXT;
+
+-- CreateTable
+CREATE TABLE "DateRule" (
+    "id" TEXT NOT NULL,
+    "organizationId" TEXT,
+    "name" TEXT,
+    "pattern" TEXT NOT NULL,
+    "window" TEXT NOT NULL DEFAULT 'before',
+    "windowChars" INTEGER NOT NULL DEFAULT 50,
+    "classification" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DateRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DateRule_organizationId_idx" ON "DateRule"("organizationId");
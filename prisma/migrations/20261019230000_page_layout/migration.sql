@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "layout" JSONB;
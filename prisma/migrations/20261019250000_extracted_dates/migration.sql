@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "ExtractedDate" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "raw" TEXT NOT NULL,
+    "iso" TEXT NOT NULL,
+    "precision" TEXT NOT NULL DEFAULT 'day',
+    "time" TEXT,
+    "endDate" TEXT,
+    "endDatePrecision" TEXT,
+    "offset" INTEGER NOT NULL,
+    "contextBefore" TEXT NOT NULL,
+    "contextAfter" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "box" JSONB,
+    "region" TEXT,
+    "classification" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "ambiguousMdy" TEXT,
+    "ambiguousDmy" TEXT,
+    "ocrRepaired" TEXT,
+    "inferredAnchor" TEXT,
+    "inferredAnchorRaw" TEXT,
+    "inferredReasoning" TEXT,
+    "userEdited" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ExtractedDate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ExtractedDate_documentId_idx" ON "ExtractedDate"("documentId");
+
+-- CreateIndex
+CREATE INDEX "ExtractedDate_pageId_idx" ON "ExtractedDate"("pageId");
+
+-- AddForeignKey
+ALTER TABLE "ExtractedDate" ADD CONSTRAINT "ExtractedDate_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExtractedDate" ADD CONSTRAINT "ExtractedDate_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "Page"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "dateOfService" TEXT,
+ADD COLUMN     "dateSource" TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN     "inheritedFrom" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PageCluster" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "dateOfService" TEXT NOT NULL,
+    "pages" INTEGER[],
+    "primaryPage" INTEGER NOT NULL,
+    "documentType" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageCluster_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PageCluster_documentId_idx" ON "PageCluster"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "PageCluster" ADD CONSTRAINT "PageCluster_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
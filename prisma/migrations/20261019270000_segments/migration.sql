@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "Segment" (
+    "id" TEXT NOT NULL,
+    "documentId" TEXT NOT NULL,
+    "startPage" INTEGER NOT NULL,
+    "endPage" INTEGER NOT NULL,
+    "boundaries" TEXT[],
+    "provider" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Segment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Segment_documentId_idx" ON "Segment"("documentId");
+
+-- AddForeignKey
+ALTER TABLE "Segment" ADD CONSTRAINT "Segment_documentId_fkey" FOREIGN KEY ("documentId") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
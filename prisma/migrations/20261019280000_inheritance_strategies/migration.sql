@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Document" ADD COLUMN     "inheritanceStrategy" TEXT NOT NULL DEFAULT 'forward',
+ADD COLUMN     "maxInheritanceDistance" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Page" ADD COLUMN     "dateConfidence" DOUBLE PRECISION,
+ADD COLUMN     "inheritanceStrategy" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "LlmCache" (
+    "id" TEXT NOT NULL,
+    "textHash" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "result" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LlmCache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LlmCache_textHash_promptVersion_model_key" ON "LlmCache"("textHash", "promptVersion", "model");
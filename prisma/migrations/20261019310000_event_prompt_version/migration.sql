@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "DateEvent" ADD COLUMN     "promptVersion" TEXT;
@@ -0,0 +1,8 @@
+-- Entries keyed on normalized page text can't be matched to a prompt
+DELETE FROM "LlmCache";
+
+-- AlterTable
+ALTER TABLE "LlmCache" RENAME COLUMN "textHash" TO "promptHash";
+
+-- RenameIndex
+ALTER INDEX "LlmCache_textHash_promptVersion_model_key" RENAME TO "LlmCache_promptHash_promptVersion_model_key";
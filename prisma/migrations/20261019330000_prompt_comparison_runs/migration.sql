@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "ProcessingRun" ADD COLUMN     "kind" TEXT NOT NULL DEFAULT 'process';
+
+-- CreateTable
+CREATE TABLE "PromptComparison" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "versionA" TEXT NOT NULL,
+    "versionB" TEXT NOT NULL,
+    "provider" TEXT,
+    "pageNumbers" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+    "result" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptComparison_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptComparison_runId_key" ON "PromptComparison"("runId");
+
+-- AddForeignKey
+ALTER TABLE "PromptComparison" ADD CONSTRAINT "PromptComparison_runId_fkey" FOREIGN KEY ("runId") REFERENCES "ProcessingRun"("id") ON DELETE CASCADE ON UPDATE CASCADE;
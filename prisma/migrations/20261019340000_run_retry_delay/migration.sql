@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "ProcessingRun" ADD COLUMN     "availableAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "redoOcr" BOOLEAN NOT NULL DEFAULT false;